@@ -0,0 +1,35 @@
+// Build-time generator for public/mtr_savings_index.json
+// Run with: npm run build:savings-index (also runs automatically before `build`)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadFareDataset, setFareDataset, getStationIdList, PAYMENT_METHODS } from '../src/data/fareService';
+import { hasBlockingIssues } from '../src/data/dataValidation';
+import { fileSystemDataSource } from '../src/data/fileSystemDataSource';
+import { buildSavingsIndex, SAVINGS_INDEX_FILE } from '../src/data/savingsIndex';
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public');
+const INDEX_FILE_PATH = path.join(PUBLIC_DIR, SAVINGS_INDEX_FILE);
+
+async function main() {
+  const dataset = await loadFareDataset(fileSystemDataSource(PUBLIC_DIR));
+  const { report } = dataset;
+  if (report && hasBlockingIssues(report)) {
+    throw new Error(`Fare CSV failed validation, missing columns: ${report.missingColumns.join(', ')}`);
+  }
+  // The savings calculation reads fares from the default dataset
+  setFareDataset(dataset);
+
+  const index = buildSavingsIndex(getStationIdList());
+  fs.writeFileSync(INDEX_FILE_PATH, JSON.stringify(index));
+
+  PAYMENT_METHODS.forEach(method => {
+    console.log(`${method}: ${index.methods[method].length} routes with savings`);
+  });
+  console.log(`Wrote ${path.relative(process.cwd(), INDEX_FILE_PATH)} (CSV hash ${index.csvHash}, rules hash ${index.rulesHash}).`);
+}
+
+main().catch(error => {
+  console.error('Failed to build savings index:', error);
+  process.exit(1);
+});
@@ -0,0 +1,308 @@
+// Command-line fare queries, using the same fare and optimizer code as the app
+// Run with: yarn cli <command> [options]
+//
+//   fare <from> <to> [--pay METHOD]        Direct fare (every payment method unless --pay is given)
+//   optimize <from> <to> [--pay METHOD] [--max-splits N]
+//                                          Cheapest ways to split the journey
+//   stations [--line LINE]                 Stations, optionally only those on one line
+//
+// Stations can be given by code (TSW), ID or English/Chinese name. Light Rail stops
+// are included when their CSVs are in public/. Add --json for machine-readable output.
+
+import * as path from 'path';
+import { getFareDataReport, PAYMENT_METHODS, PaymentMethod } from '../src/data/fareService';
+import { getLineById, getLinesForStation, getStationDataReport, loadStationData, getMtrLines } from '../src/data/mtrLines';
+import { findStation, getRegisteredStations, Station } from '../src/data/stationRegistry';
+import { MAX_SPLITS_LIMIT, optimizeRoute } from '../src/data/optimizer';
+import { estimateJourney } from '../src/data/journeyTime';
+import { hasBlockingIssues } from '../src/data/dataValidation';
+import { setDefaultDataSource } from '../src/data/dataSource';
+import { fileSystemDataSource } from '../src/data/fileSystemDataSource';
+import {
+  combinedFareLookup,
+  isLightRailStop,
+  LIGHT_RAIL_LINE,
+  lightRailRouteOptions,
+  loadLightRailData,
+} from '../src/data/lightRail';
+
+const PUBLIC_DIR = path.join(__dirname, '..', 'public');
+
+const USAGE = `Usage: yarn cli <command> [options]
+
+Commands:
+  fare <from> <to> [--pay METHOD]
+  optimize <from> <to> [--pay METHOD] [--max-splits N]
+  stations [--line LINE]
+
+Options:
+  --pay METHOD      One of ${PAYMENT_METHODS.join(', ')}
+  --max-splits N    Exit stations allowed, 1-${MAX_SPLITS_LIMIT} (default 1)
+  --line LINE       Line code, e.g. TML
+  --json            Print JSON instead of a table
+  --help            Show this message`;
+
+// Bad arguments: reported with the usage text rather than a stack trace
+class UsageError extends Error {
+  name = 'UsageError';
+}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Map<string, string | true>;
+}
+
+// Split arguments into positionals and --options (as "--name value", "--name=value" or a bare flag)
+function parseArgs(args: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options = new Map<string, string | true>();
+  const flags = new Set(['json', 'help']);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    const name = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+    if (equals !== -1) {
+      options.set(name, arg.slice(equals + 1));
+    } else if (flags.has(name)) {
+      options.set(name, true);
+    } else if (i + 1 < args.length) {
+      options.set(name, args[++i]);
+    } else {
+      throw new UsageError(`Missing value for --${name}`);
+    }
+  }
+  return { positional, options };
+}
+
+function optionValue(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parsePaymentMethod(value: string | undefined): PaymentMethod | undefined {
+  if (value === undefined) return undefined;
+  const method = PAYMENT_METHODS.find(candidate => candidate === value.toUpperCase());
+  if (!method) {
+    throw new UsageError(`Unknown payment method "${value}". Use one of ${PAYMENT_METHODS.join(', ')}`);
+  }
+  return method;
+}
+
+function resolveStation(query: string | undefined, role: string): Station {
+  if (!query) {
+    throw new UsageError(`Missing ${role} station`);
+  }
+  const station = findStation(query);
+  if (!station) {
+    throw new UsageError(`Unknown station "${query}"`);
+  }
+  return station;
+}
+
+const stationJson = (station: Station) => ({
+  id: station.id,
+  code: station.code,
+  nameEn: station.nameEn,
+  nameZh: station.nameZh,
+});
+
+const stationLabel = (stationId: string) => {
+  const station = findStation(stationId);
+  return station ? `${station.nameEn} ${station.nameZh}` : stationId;
+};
+
+const formatMoney = (value: number | undefined | null) =>
+  value === undefined || value === null ? '-' : `$${value.toFixed(2)}`;
+
+// Terminal columns taken by a string; CJK characters are two columns wide
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]/.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+// Print rows as a plain-text table with a header rule; numeric columns are right-aligned
+function printTable(headers: string[], rows: string[][], rightAligned: number[] = []) {
+  const widths = headers.map((header, column) =>
+    Math.max(displayWidth(header), ...rows.map(row => displayWidth(row[column])))
+  );
+  const formatRow = (cells: string[]) => cells
+    .map((cell, column) => {
+      const padding = ' '.repeat(widths[column] - displayWidth(cell));
+      return rightAligned.includes(column) ? padding + cell : cell + padding;
+    })
+    .join('  ')
+    .trimEnd();
+
+  console.log(formatRow(headers));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(formatRow(row)));
+}
+
+function fareCommand(args: ParsedArgs, json: boolean) {
+  const from = resolveStation(args.positional[1], 'start');
+  const to = resolveStation(args.positional[2], 'destination');
+  const pay = parsePaymentMethod(optionValue(args, 'pay'));
+  const methods = pay ? [pay] : PAYMENT_METHODS;
+  const lookup = combinedFareLookup();
+  const fares = methods.map(method => ({ paymentMethod: method, fare: lookup.getFare(from.id, to.id, method) ?? null }));
+
+  if (json) {
+    console.log(JSON.stringify({ from: stationJson(from), to: stationJson(to), fares }, null, 2));
+    return;
+  }
+  console.log(`${stationLabel(from.id)} → ${stationLabel(to.id)}\n`);
+  printTable(['Payment method', 'Fare'], fares.map(({ paymentMethod, fare }) => [paymentMethod, formatMoney(fare)]), [1]);
+}
+
+function optimizeCommand(args: ParsedArgs, json: boolean) {
+  const from = resolveStation(args.positional[1], 'start');
+  const to = resolveStation(args.positional[2], 'destination');
+  if (from.id === to.id) {
+    throw new UsageError('Start and destination are the same station');
+  }
+  const pay = parsePaymentMethod(optionValue(args, 'pay')) ?? 'OCT_ADT_FARE';
+  const maxSplitsValue = optionValue(args, 'max-splits');
+  const maxSplits = maxSplitsValue === undefined ? 1 : Number(maxSplitsValue);
+  if (!Number.isInteger(maxSplits) || maxSplits < 1 || maxSplits > MAX_SPLITS_LIMIT) {
+    throw new UsageError(`--max-splits must be between 1 and ${MAX_SPLITS_LIMIT}`);
+  }
+
+  const directFare = combinedFareLookup().getFare(from.id, to.id, pay) ?? null;
+  const routes = optimizeRoute(from.id, to.id, pay, { maxSplits, ...lightRailRouteOptions() }).map(route => ({
+    route,
+    minutes: estimateJourney(route.stationIds)?.minutes ?? null,
+  }));
+
+  if (json) {
+    console.log(JSON.stringify({
+      from: stationJson(from),
+      to: stationJson(to),
+      paymentMethod: pay,
+      maxSplits,
+      directFare,
+      routes: routes.map(({ route, minutes }) => ({
+        exitStationIds: route.exitStationIds,
+        isDirect: route.isDirect,
+        isCheapest: route.isCheapest,
+        legs: route.legs,
+        baseFare: route.baseFare,
+        totalFare: route.totalFare,
+        appliedRules: route.appliedRules,
+        saving: route.saving !== null ? Number(route.saving.toFixed(2)) : null,
+        minutes: minutes !== null ? Math.round(minutes) : null,
+      })),
+    }, null, 2));
+    return;
+  }
+
+  console.log(`${stationLabel(from.id)} → ${stationLabel(to.id)} (${pay}, up to ${maxSplits} split${maxSplits > 1 ? 's' : ''})`);
+  console.log(`Direct fare: ${formatMoney(directFare)}\n`);
+  if (routes.length === 0) {
+    console.log('No priced routes found.');
+    return;
+  }
+  printTable(
+    ['#', 'Exit at', 'Legs', 'Total', 'Saving', 'Time'],
+    routes.map(({ route, minutes }, index) => [
+      String(index + 1),
+      route.isDirect ? '(direct)' : route.exitStationIds.map(stationLabel).join(' → '),
+      route.legs.map(leg => formatMoney(leg.fare)).join(' + '),
+      formatMoney(route.totalFare),
+      route.saving !== null && route.saving > 0.005 ? formatMoney(route.saving) : '-',
+      minutes !== null ? `~${Math.round(minutes)} min` : '-',
+    ]),
+    [0, 3, 4, 5]
+  );
+}
+
+function stationsCommand(args: ParsedArgs, json: boolean) {
+  const lineId = optionValue(args, 'line')?.toUpperCase();
+  const line = lineId ? getLineById(lineId) : undefined;
+  if (lineId && !line) {
+    throw new UsageError(`Unknown line "${lineId}". Use one of ${getMtrLines().map(known => known.id).join(', ')}`);
+  }
+
+  const stations = line
+    ? line.stations.map(stationId => findStation(stationId)).filter((station): station is Station => Boolean(station))
+    : [...getRegisteredStations()].sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  const rows = stations.map(station => ({
+    ...stationJson(station),
+    lines: isLightRailStop(station.id)
+      ? [LIGHT_RAIL_LINE.id]
+      : getLinesForStation(station.id).map(stationLine => stationLine.id),
+  }));
+
+  if (json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+  printTable(
+    ['ID', 'Code', 'English', 'Chinese', 'Lines'],
+    rows.map(row => [row.id, row.code ?? '-', row.nameEn, row.nameZh, row.lines.join(' ')]),
+    [0]
+  );
+}
+
+async function loadData() {
+  setDefaultDataSource(fileSystemDataSource(PUBLIC_DIR));
+  await loadStationData();
+  await loadLightRailData();
+
+  const reports = [getFareDataReport(), getStationDataReport()];
+  if (reports.some(report => report && hasBlockingIssues(report))) {
+    throw new Error('The CSVs under public/ failed validation');
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const command = args.positional[0];
+  const json = args.options.has('json');
+  if (!command || args.options.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  // The loaders log progress (and a warning when there is no Light Rail data);
+  // keep the output for the command's own results
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    await loadData();
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  switch (command) {
+    case 'fare':
+      fareCommand(args, json);
+      break;
+    case 'optimize':
+      optimizeCommand(args, json);
+      break;
+    case 'stations':
+      stationsCommand(args, json);
+      break;
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main().catch(error => {
+  if (error?.name === 'UsageError') {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  console.error('Fare query failed:', error);
+  process.exit(1);
+});
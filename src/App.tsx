@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useLayoutEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Helmet } from 'react-helmet';
 import {
@@ -26,18 +26,63 @@ import {
 } from '@mui/material';
 import SavingsPage from './components/SavingsPage';
 import StationSelector from './components/StationSelector';
+import DataQualityPanel from './components/DataQualityPanel';
+import FareChangesPage from './components/FareChangesPage';
+import AppliedFareRules from './components/AppliedFareRules';
+import LegPath from './components/LegPath';
+import NetworkMap from './components/NetworkMap';
+import PaymentMethodMatrix from './components/PaymentMethodMatrix';
+import CommutePlannerPage from './components/CommutePlannerPage';
+import QuickPicks from './components/QuickPicks';
+import RouteExclusionsPicker from './components/RouteExclusionsPicker';
 import {
   loadFareData,
-  getStationList,
-  getStationId,
-  getFare,
+  getFareDataReport,
+  getStationIdList,
   PaymentMethod,
 } from './data/fareService';
-import { getLinesForStation, loadStationData } from './data/mtrLines';
+import { DataQualityReport, hasBlockingIssues } from './data/dataValidation';
+import { MAX_SPLITS_LIMIT, optimizeRoute, RankedRoute } from './data/optimizer';
+import { countDetourStops, getRouteCorridor, MAX_CORRIDOR_STOPS } from './data/routeCorridor';
+import { AppliedFareRule } from './data/fareRules';
+import { estimateJourney } from './data/journeyTime';
+import { NetworkPath } from './data/networkGraph';
+import { getLinesForStation, getStationDataReport, loadStationData } from './data/mtrLines';
+import { combinedFareLookup, lightRailRouteOptions, loadLightRailData } from './data/lightRail';
+import { allowedExitStations, allowedLegs, NO_EXCLUSIONS, RouteExclusions } from './data/routeExclusions';
+import { findStation, getStationById } from './data/stationRegistry';
+import { useStationName } from './hooks/useStationName';
+import { useUserData } from './hooks/useUserData';
+import { useExclusionLabels } from './hooks/useExclusionLabels';
+import { useLanguage } from './hooks/useLanguage';
+import {
+  AppLocation,
+  Page,
+  SavingsQuery,
+  DEFAULT_CALCULATOR_QUERY,
+  DEFAULT_SAVINGS_QUERY,
+  parseLocation,
+  buildCalculatorUrl,
+  buildSavingsUrl,
+  buildPageUrl,
+} from './urlState';
+import {
+  addFavourite,
+  FavouriteRoute,
+  HistoryEntry,
+  recordHistory,
+  removeFavourite,
+  removeHistoryEntry,
+  setDefaultPaymentMethod,
+  setExclusions,
+} from './userStorage';
 import './App.css';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import DirectionsIcon from '@mui/icons-material/Directions';
 import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import HistoryIcon from '@mui/icons-material/History';
+import CommuteIcon from '@mui/icons-material/Commute';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
 
 // Define payment method options for the dropdown
 const paymentMethodOptions: { value: PaymentMethod; label: string }[] = [
@@ -52,23 +97,65 @@ const paymentMethodOptions: { value: PaymentMethod; label: string }[] = [
   { value: 'SINGLE_CON_ELDERLY_FARE', label: 'Elderly Single Journey' },
 ];
 
+// Choices for hiding split options that take too much longer than going direct
+const extraMinutesOptions = [5, 10, 15, 20, 30];
+
+// Resolve a station ID from a URL parameter: a station code, ID or name
+const stationFromUrl = (value: string): string | null => {
+  return findStation(value)?.id ?? null;
+};
+
+// Station code for URLs, falling back to the ID for stations without one
+const stationToUrl = (stationId: string): string => {
+  return getStationById(stationId)?.code || stationId;
+};
+
+// Add a history entry unless the URL is unchanged
+const pushUrl = (url: string) => {
+  if (url !== `${window.location.pathname}${window.location.search}`) {
+    window.history.pushState(null, '', url);
+  }
+};
+
 function App() {
-  const [currentPage, setCurrentPage] = useState<'calculator' | 'savings'>('calculator');
+  const [currentPage, setCurrentPage] = useState<Page>('calculator');
   const [startStation, setStartStation] = useState<string | null>(null);
   const [destStation, setDestStation] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(paymentMethodOptions[0].value);
+  const [maxSplits, setMaxSplits] = useState<number>(1);
+  const [detourStops, setDetourStops] = useState<number | null>(null); // "On my way" mode, null for anywhere
+  const [maxExtraMinutes, setMaxExtraMinutes] = useState<number | ''>('');
+  const [savingsQuery, setSavingsQuery] = useState<SavingsQuery>(DEFAULT_SAVINGS_QUERY);
   const [loading, setLoading] = useState<boolean>(true);
   const [calculating, setCalculating] = useState<boolean>(false);
 
   type RouteResult = {
-    station: string | null;
-    fare: number;
-    isCheapest?: boolean;
-    isDirect?: boolean;
+    stations: string[]; // Exit station IDs between start and destination, empty for direct
+    legs: { from: string; to: string; fare: number; path: NetworkPath | null }[]; // Station IDs, fare and physical path per leg
+    fare: number; // After fare rules
+    appliedRules: AppliedFareRule[];
+    minutes: number | null; // Estimated journey time, null if a station isn't on the network
+    extraMinutes: number | null; // Compared with the direct route
+    detourStops: number | null; // Extra stops ridden compared with the direct path, 0 if none
+    savingPerExtraMinute: number | null; // Dollars saved per extra minute, when it takes longer
+    isCheapest: boolean;
+    isDirect: boolean;
   };
   const [results, setResults] = useState<RouteResult[] | null>(null);
+  const [resultExclusions, setResultExclusions] = useState<RouteExclusions>(NO_EXCLUSIONS); // Exclusions the results were calculated with
+  const [selectedResultIndex, setSelectedResultIndex] = useState<number>(0); // Result highlighted on the map
   const [error, setError] = useState<string | null>(null);
   const { t, i18n } = useTranslation();
+  const language = useLanguage();
+  const stationName = useStationName();
+  const [userData, updateUserData] = useUserData();
+  // Read when applying a URL, without re-applying the URL whenever the default changes
+  const defaultPaymentMethodRef = useRef(userData.preferences.defaultPaymentMethod);
+  defaultPaymentMethodRef.current = userData.preferences.defaultPaymentMethod;
+  // Read by every calculation, without recalculating whenever they are edited
+  const exclusionsRef = useRef(userData.preferences.exclusions);
+  exclusionsRef.current = userData.preferences.exclusions;
+  const exclusionLabels = useExclusionLabels();
 
 
   // Load fare and station data on component mount
@@ -77,7 +164,7 @@ function App() {
       try {
         setError(null);
         setLoading(true);
-        await Promise.all([loadFareData(), loadStationData()]);
+        await Promise.all([loadFareData(), loadStationData(), loadLightRailData()]);
       } catch (err) {
         console.error(t('errorLoadingData'), err);
         setError(t('errorLoadingData'));
@@ -92,6 +179,20 @@ function App() {
     setPaymentMethod(event.target.value as PaymentMethod);
   };
 
+  const handleMaxSplitsChange = (event: SelectChangeEvent<number>) => {
+    setMaxSplits(Number(event.target.value));
+  };
+
+  const handleDetourStopsChange = (event: SelectChangeEvent<number | ''>) => {
+    const value = event.target.value;
+    setDetourStops(value === '' ? null : Number(value));
+  };
+
+  const handleMaxExtraMinutesChange = (event: SelectChangeEvent<number | ''>) => {
+    const value = event.target.value;
+    setMaxExtraMinutes(value === '' ? '' : Number(value));
+  };
+
   const handleLanguageChange = (
     event: React.MouseEvent<HTMLElement>,
     newLanguage: string | null,
@@ -104,7 +205,13 @@ function App() {
     }
   };
 
-  const handleCalculate = () => {
+  const runCalculation = useCallback((
+    startStation: string | null,
+    destStation: string | null,
+    paymentMethod: PaymentMethod,
+    maxSplits: number,
+    detourStops: number | null,
+  ) => {
     if (!startStation || !destStation || !paymentMethod) {
       setError(t('errorSelectStations'));
       return;
@@ -118,105 +225,242 @@ function App() {
     setCalculating(true);
     setResults(null);
 
-    const startId = getStationId(startStation);
-    const destId = getStationId(destStation);
+    const startId = startStation;
+    const destId = destStation;
 
-    if (!startId || !destId) {
+    // Stations without fare data (e.g. Airport Express only) can't be priced
+    const lookup = combinedFareLookup();
+    if (!lookup.getStationName(startId) || !lookup.getStationName(destId)) {
       setError(t('errorStationId'));
       setCalculating(false);
       return;
     }
 
-    // Get Direct Fare
-    const directFare = getFare(startId, destId, paymentMethod);
-    const directFareValue = directFare === undefined ? Infinity : directFare;
+    // In "on my way" mode only stations near the direct path may be exits
+    const corridor = detourStops !== null ? getRouteCorridor(startId, destId, detourStops) : null;
+    if (detourStops !== null && !corridor) {
+      setError(t('routeMode.errorOffNetwork', 'The direct path for these stations is unknown, so "on my way" mode can\'t be used.'));
+      setCalculating(false);
+      return;
+    }
 
-    // Find Cheaper Intermediate Routes
-    const allStations = getStationList();
-    const cheaperOptions: { station: string; fare: number }[] = [];
+    // Exits are limited to the corridor, if any, minus the excluded stations and lines
+    const routeOptions = lightRailRouteOptions();
+    const exclusions = exclusionsRef.current;
+    const corridorExits = corridor ? Array.from(corridor.keys()) : null;
+    const exitStationIds = allowedExitStations(exclusions, corridorExits ?? routeOptions.stationIds ?? getStationIdList()) ??
+      (corridorExits ? new Set(corridorExits) : undefined);
 
-    for (const intermediateStation of allStations) {
-      if (intermediateStation === startStation || intermediateStation === destStation) {
-        continue;
-      }
+    // Rank the direct route and every cheaper chain of exits, across Light Rail too when loaded.
+    // Splits never ride an avoided line.
+    const rankedRoutes = optimizeRoute(startId, destId, paymentMethod, {
+      maxSplits,
+      exitStationIds,
+      isLegAllowed: allowedLegs(exclusions),
+      ...routeOptions,
+    });
 
-      const intermediateId = getStationId(intermediateStation);
-      if (!intermediateId) continue;
+    const directEstimate = estimateJourney([startId, destId]);
+    const directMinutes = directEstimate?.minutes ?? null;
+    const directPath = directEstimate ? directEstimate.legPaths[0] : null;
 
-      const fare1 = getFare(startId, intermediateId, paymentMethod);
-      const fare2 = getFare(intermediateId, destId, paymentMethod);
+    const toRouteResult = (route: RankedRoute): RouteResult => {
+      const estimate = estimateJourney(route.stationIds);
+      const minutes = estimate?.minutes ?? null;
+      const extraMinutes = minutes !== null && directMinutes !== null ? minutes - directMinutes : null;
+      return {
+        stations: route.exitStationIds,
+        legs: route.legs.map((leg, legIndex) => ({
+          from: leg.fromStationId,
+          to: leg.toStationId,
+          fare: leg.fare,
+          path: estimate ? estimate.legPaths[legIndex] : null,
+        })),
+        fare: route.totalFare,
+        appliedRules: route.appliedRules,
+        minutes,
+        extraMinutes,
+        detourStops: estimate && directPath ? countDetourStops(estimate.legPaths, directPath) : null,
+        savingPerExtraMinute: extraMinutes !== null && extraMinutes > 0 && route.saving !== null
+          ? route.saving / extraMinutes
+          : null,
+        isCheapest: route.isCheapest,
+        isDirect: route.isDirect,
+      };
+    };
 
-      if (fare1 !== undefined && fare2 !== undefined) {
-        const totalFare = fare1 + fare2;
-        if (totalFare < directFareValue) {
-          cheaperOptions.push({ station: intermediateStation, fare: totalFare });
-        }
-      }
+    const finalResults = rankedRoutes.map(toRouteResult);
+    const directRoute = finalResults.find(route => route.isDirect) ?? null;
+
+    if (finalResults.length === 0) {
+      setError(t('errorNoRoutes'));
+    } else {
+      setResults(finalResults);
+      setResultExclusions(exclusions);
+      setSelectedResultIndex(0);
+      const bestRoute = finalResults[0];
+      updateUserData(data => recordHistory(data, {
+        startStationId: startId,
+        destStationId: destId,
+        paymentMethod,
+        maxSplits,
+        bestFare: bestRoute.fare,
+        bestStationIds: bestRoute.stations,
+        directFare: directRoute ? directRoute.fare : null,
+        calculatedAt: new Date().toISOString(),
+      }));
     }
 
-    // Build results
-    const directRoute: RouteResult | null = directFare !== undefined
-      ? { station: null, fare: directFare, isDirect: true }
-      : null;
+    setCalculating(false);
+  }, [t, updateUserData]);
 
-    const intermediateRoutes: RouteResult[] = cheaperOptions.map(opt => ({
-      station: opt.station,
-      fare: opt.fare,
-    }));
+  // Restore page, stations and payment method from a deep link, recalculating when both stations are set
+  const applyLocation = useCallback((location: AppLocation) => {
+    const fromStation = location.calculator.from ? stationFromUrl(location.calculator.from) : null;
+    const toStation = location.calculator.to ? stationFromUrl(location.calculator.to) : null;
+    // A URL without stations or a payment method starts from the saved default method
+    const usesDefaultPayment = !location.calculator.from && !location.calculator.to &&
+      location.calculator.pay === DEFAULT_CALCULATOR_QUERY.pay;
+    const pay = usesDefaultPayment
+      ? defaultPaymentMethodRef.current ?? location.calculator.pay
+      : location.calculator.pay;
 
-    let combinedOptions: RouteResult[] = [...intermediateRoutes];
-    if (directRoute) {
-      combinedOptions.push(directRoute);
-    }
-    combinedOptions.sort((a, b) => a.fare - b.fare);
+    setCurrentPage(location.page);
+    setStartStation(fromStation);
+    setDestStation(toStation);
+    setPaymentMethod(pay);
+    setMaxSplits(location.calculator.splits);
+    setDetourStops(location.calculator.detour);
+    setSavingsQuery(location.savings);
+    setError(null);
 
-    const cheapestRoute = combinedOptions.length > 0 ? combinedOptions[0] : null;
-    if (cheapestRoute) {
-      cheapestRoute.isCheapest = true;
+    if (location.page === 'calculator' && fromStation && toStation) {
+      runCalculation(
+        fromStation,
+        toStation,
+        pay,
+        location.calculator.splits,
+        location.calculator.detour
+      );
+    } else {
+      setResults(null);
     }
+  }, [runCalculation]);
 
-    let finalResults: RouteResult[] = [];
-    const otherIntermediateRoutes = intermediateRoutes
-      .filter(route => route !== cheapestRoute)
-      .sort((a, b) => a.fare - b.fare);
+  // Apply the initial URL once data is loaded, then follow browser back/forward
+  useEffect(() => {
+    if (loading) return;
+    applyLocation(parseLocation(window.location.pathname, window.location.search));
 
-    if (cheapestRoute) {
-      finalResults.push(cheapestRoute);
-    }
+    const handlePopState = () => {
+      applyLocation(parseLocation(window.location.pathname, window.location.search));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [loading, applyLocation]);
 
-    let directAdded = false;
-    if (directRoute && directRoute !== cheapestRoute && finalResults.length < 5) {
-      finalResults.push(directRoute);
-      directAdded = true;
-    }
+  const calculatorUrl = () => buildCalculatorUrl({
+    from: startStation ? stationToUrl(startStation) : null,
+    to: destStation ? stationToUrl(destStation) : null,
+    pay: paymentMethod,
+    splits: maxSplits,
+    detour: detourStops,
+  });
 
-    for (const route of otherIntermediateRoutes) {
-      if (finalResults.length >= 5) break;
-      if (!directAdded || route.station !== directRoute?.station) {
-        if (!finalResults.some(fr => fr.station === route.station && fr.fare === route.fare)) {
-          finalResults.push(route);
-        }
-      }
-    }
+  const handleCalculate = () => {
+    pushUrl(calculatorUrl());
+    runCalculation(startStation, destStation, paymentMethod, maxSplits, detourStops);
+  };
 
-    if (finalResults.length === 0) {
-      setError(t('errorNoRoutes'));
+  // Fill in and calculate a saved or recent route
+  const calculateQuickPick = (startId: string, destId: string, method: PaymentMethod, splits: number) => {
+    setStartStation(startId);
+    setDestStation(destId);
+    setPaymentMethod(method);
+    setMaxSplits(splits);
+    pushUrl(buildCalculatorUrl({
+      from: stationToUrl(startId),
+      to: stationToUrl(destId),
+      pay: method,
+      splits,
+      detour: detourStops,
+    }));
+    runCalculation(startId, destId, method, splits, detourStops);
+  };
+
+  const handlePickFavourite = (favourite: FavouriteRoute) => {
+    calculateQuickPick(
+      favourite.startStationId,
+      favourite.destStationId,
+      favourite.paymentMethod ?? paymentMethod,
+      maxSplits
+    );
+  };
+
+  const handlePickHistory = (entry: HistoryEntry) => {
+    calculateQuickPick(entry.startStationId, entry.destStationId, entry.paymentMethod, entry.maxSplits);
+  };
+
+  const handleAddFavourite = (nickname: string, rememberPaymentMethod: boolean) => {
+    if (!startStation || !destStation) return;
+    updateUserData(data => addFavourite(data, {
+      nickname,
+      startStationId: startStation,
+      destStationId: destStation,
+      paymentMethod: rememberPaymentMethod ? paymentMethod : null,
+    }));
+  };
+
+  // Recalculate the shown journey with a payment method picked from the comparison
+  const handleComparePaymentMethod = (startId: string, destId: string, method: PaymentMethod) => {
+    setStartStation(startId);
+    setDestStation(destId);
+    setPaymentMethod(method);
+    pushUrl(buildCalculatorUrl({
+      from: stationToUrl(startId),
+      to: stationToUrl(destId),
+      pay: method,
+      splits: maxSplits,
+      detour: detourStops,
+    }));
+    runCalculation(startId, destId, method, maxSplits, detourStops);
+  };
+
+  const handleSavingsQueryChange = (query: SavingsQuery) => {
+    setSavingsQuery(query);
+    pushUrl(buildSavingsUrl(query));
+  };
+
+  const navigateTo = (page: Page) => {
+    if (page === 'calculator') {
+      pushUrl(calculatorUrl());
+    } else if (page === 'savings') {
+      pushUrl(buildSavingsUrl(savingsQuery));
     } else {
-      setResults(finalResults);
+      pushUrl(buildPageUrl(page));
     }
-
-    setCalculating(false);
+    setCurrentPage(page);
   };
 
-  const navigateToSavings = () => setCurrentPage('savings');
-  const navigateToCalculator = () => setCurrentPage('calculator');
+  const navItems: { page: Page; label: string; icon: React.ReactNode }[] = [
+    { page: 'calculator', label: t('backToCalculatorLink', 'Back to Fare Calculator'), icon: <DirectionsIcon /> },
+    { page: 'savings', label: t('viewSavingsPageLink', 'View All Routes with Savings'), icon: <TrendingDownIcon /> },
+    { page: 'changes', label: t('viewChangesPageLink', 'What Changed'), icon: <HistoryIcon /> },
+    { page: 'planner', label: t('viewPlannerPageLink', 'Commute Planner'), icon: <CommuteIcon /> },
+  ];
 
+  const pageTitles: Record<Page, { title: string; htmlTitle: string }> = {
+    calculator: { title: t('appTitle'), htmlTitle: t('htmlTitle') },
+    savings: { title: t('savingsPageTitle'), htmlTitle: t('savingsPageHtmlTitle', 'MTR Savings Routes') },
+    changes: { title: t('changesPageTitle', 'Fare Changes'), htmlTitle: t('changesPageHtmlTitle', 'MTR Fare Changes') },
+    planner: { title: t('plannerPageTitle', 'Commute Planner'), htmlTitle: t('plannerPageHtmlTitle', 'MTR Commute Cost Planner') },
+  };
+
+  const htmlTitle = pageTitles[currentPage].htmlTitle;
   useLayoutEffect(() => {
     // Update title based on current page
-    document.title = currentPage === 'calculator'
-      ? t('htmlTitle')
-      : t('savingsPageHtmlTitle', 'MTR Savings Routes'); // Add translation key
-  }, [t, currentPage]);
+    document.title = htmlTitle;
+  }, [htmlTitle]);
 
   if (loading) {
     return (
@@ -227,13 +471,33 @@ function App() {
     );
   }
 
+  // Don't compute anything from data that failed schema validation
+  const dataReports = [getFareDataReport(), getStationDataReport()]
+    .filter((report): report is DataQualityReport => report !== null);
+  const dataBlocked = dataReports.some(hasBlockingIssues);
+
+  // Split options that take longer than the chosen threshold are hidden; direct always shows
+  const visibleResults = (results || []).filter(route =>
+    maxExtraMinutes === '' || route.stations.length === 0 ||
+    route.extraMinutes === null || route.extraMinutes <= maxExtraMinutes
+  );
+  const hiddenResultCount = (results?.length ?? 0) - visibleResults.length;
+
+  // Only draw the selected result while it still matches the chosen stations
+  const selectedResult = visibleResults[selectedResultIndex] ?? visibleResults[0];
+  const mapRoute = selectedResult &&
+    selectedResult.legs[0].from === startStation &&
+    selectedResult.legs[selectedResult.legs.length - 1].to === destStation
+    ? selectedResult
+    : null;
+
   // Get current language for the toggle button state
-  const currentLanguage = i18n.language.startsWith('zh') ? 'zh-Hant' : 'en';
+  const currentLanguage = language.startsWith('zh') ? 'zh-Hant' : 'en';
 
   return (
     <>
-      <Helmet key={i18n.language}>
-        <html lang={i18n.language.split('-')[0]} />
+      <Helmet key={language}>
+        <html lang={language.split('-')[0] || 'en'} />
         <meta name="description" content={t('metaDescription')} />
       </Helmet>
 
@@ -256,7 +520,7 @@ function App() {
                 textShadow: '0 2px 4px rgba(0,0,0,0.2)',
               }}
             >
-              {currentPage === 'calculator' ? t('appTitle') : t('savingsPageTitle')}
+              {pageTitles[currentPage].title}
             </Typography>
             <ToggleButtonGroup
               value={currentLanguage}
@@ -288,45 +552,35 @@ function App() {
             </ToggleButtonGroup>
           </Box>
 
+          {/* Data-quality report for the loaded CSVs */}
+          <DataQualityPanel reports={dataReports} />
+
           {/* Navigation */}
-          <Box sx={{ mb: 3, textAlign: 'center' }}>
-            {currentPage === 'calculator' ? (
-              <Button
-                variant="contained"
-                onClick={navigateToSavings}
-                startIcon={<TrendingDownIcon />}
-                sx={{
-                  backgroundColor: 'rgba(255, 255, 255, 0.2)',
-                  backdropFilter: 'blur(10px)',
-                  color: 'white',
-                  '&:hover': {
-                    backgroundColor: 'rgba(255, 255, 255, 0.3)',
-                  },
-                }}
-              >
-                {t('viewSavingsPageLink', 'View All Routes with Savings')}
-              </Button>
-            ) : (
-              <Button
-                variant="contained"
-                onClick={navigateToCalculator}
-                startIcon={<DirectionsIcon />}
-                sx={{
-                  backgroundColor: 'rgba(255, 255, 255, 0.2)',
-                  backdropFilter: 'blur(10px)',
-                  color: 'white',
-                  '&:hover': {
-                    backgroundColor: 'rgba(255, 255, 255, 0.3)',
-                  },
-                }}
-              >
-                {t('backToCalculatorLink', 'Back to Fare Calculator')}
-              </Button>
-            )}
-          </Box>
+          <Stack direction="row" spacing={2} justifyContent="center" flexWrap="wrap" useFlexGap sx={{ mb: 3 }}>
+            {navItems
+              .filter(item => item.page !== currentPage)
+              .map(item => (
+                <Button
+                  key={item.page}
+                  variant="contained"
+                  onClick={() => navigateTo(item.page)}
+                  startIcon={item.icon}
+                  sx={{
+                    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+                    backdropFilter: 'blur(10px)',
+                    color: 'white',
+                    '&:hover': {
+                      backgroundColor: 'rgba(255, 255, 255, 0.3)',
+                    },
+                  }}
+                >
+                  {item.label}
+                </Button>
+              ))}
+          </Stack>
 
           {/* Calculator UI */}
-          {currentPage === 'calculator' && (
+          {currentPage === 'calculator' && !dataBlocked && (
             <Fade in timeout={500}>
               <Paper
                 elevation={8}
@@ -354,6 +608,22 @@ function App() {
                   </Slide>
                 )}
 
+                {/* Favourites and Recent Queries */}
+                <QuickPicks
+                  favourites={userData.favourites}
+                  history={userData.history}
+                  startStationId={startStation}
+                  destStationId={destStation}
+                  paymentMethod={paymentMethod}
+                  defaultPaymentMethod={userData.preferences.defaultPaymentMethod}
+                  onPickFavourite={handlePickFavourite}
+                  onPickHistory={handlePickHistory}
+                  onAddFavourite={handleAddFavourite}
+                  onRemoveFavourite={id => updateUserData(data => removeFavourite(data, id))}
+                  onRemoveHistory={index => updateUserData(data => removeHistoryEntry(data, index))}
+                  onSetDefaultPaymentMethod={method => updateUserData(data => setDefaultPaymentMethod(data, method))}
+                />
+
                 <Grid container spacing={3}>
                   {/* Station Selectors - Desktop Flex Layout */}
                   <Grid size={{ xs: 12 }}>
@@ -372,6 +642,7 @@ function App() {
                           onChange={setStartStation}
                           label={t('startStationLabel')}
                           excludeStation={destStation}
+                          allowLocate
                         />
                       </Box>
 
@@ -410,7 +681,7 @@ function App() {
                   </Grid>
 
                   {/* Payment Method */}
-                  <Grid size={{ xs: 12, md: 8 }}>
+                  <Grid size={{ xs: 12, md: 4 }}>
                     <FormControl fullWidth>
                       <InputLabel id="payment-method-label">{t('paymentMethodLabel')}</InputLabel>
                       <Select
@@ -428,8 +699,48 @@ function App() {
                     </FormControl>
                   </Grid>
 
+                  {/* Maximum Splits */}
+                  <Grid size={{ xs: 12, md: 2 }}>
+                    <FormControl fullWidth>
+                      <InputLabel id="max-splits-label">{t('maxSplitsLabel', 'Max. Splits')}</InputLabel>
+                      <Select
+                        labelId="max-splits-label"
+                        value={maxSplits}
+                        onChange={handleMaxSplitsChange}
+                        label={t('maxSplitsLabel', 'Max. Splits')}
+                      >
+                        {Array.from({ length: MAX_SPLITS_LIMIT }, (_, i) => i + 1).map(count => (
+                          <MenuItem key={count} value={count}>
+                            {count}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+
+                  {/* Route Mode */}
+                  <Grid size={{ xs: 12, md: 3 }}>
+                    <FormControl fullWidth>
+                      <InputLabel id="route-mode-label">{t('routeMode.label', 'Split Stations')}</InputLabel>
+                      <Select
+                        labelId="route-mode-label"
+                        value={detourStops ?? ''}
+                        onChange={handleDetourStopsChange}
+                        label={t('routeMode.label', 'Split Stations')}
+                      >
+                        <MenuItem value="">{t('routeMode.anywhere', 'Anywhere')}</MenuItem>
+                        <MenuItem value={0}>{t('routeMode.onMyWay', 'On my way')}</MenuItem>
+                        {Array.from({ length: MAX_CORRIDOR_STOPS }, (_, i) => i + 1).map(stops => (
+                          <MenuItem key={stops} value={stops}>
+                            {t('routeMode.withinStops', { count: stops, defaultValue: 'Within {{count}} stops' })}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+
                   {/* Calculate Button */}
-                  <Grid size={{ xs: 12, md: 4 }}>
+                  <Grid size={{ xs: 12, md: 3 }}>
                     <Button
                       variant="contained"
                       onClick={handleCalculate}
@@ -449,35 +760,93 @@ function App() {
                       {calculating ? <CircularProgress size={24} sx={{ color: 'white' }} /> : t('calculateButton')}
                     </Button>
                   </Grid>
+
+                  {/* Exclusions */}
+                  <Grid size={{ xs: 12 }}>
+                    <RouteExclusionsPicker
+                      value={userData.preferences.exclusions}
+                      onChange={exclusions => updateUserData(data => setExclusions(data, exclusions))}
+                    />
+                  </Grid>
                 </Grid>
 
                 {/* Results Display */}
                 {results && results.length > 0 && (
                   <Fade in timeout={500}>
                     <Box sx={{ mt: 4 }}>
-                      <Typography
-                        variant="h5"
-                        gutterBottom
-                        sx={{
-                          fontWeight: 600,
-                          color: '#333',
-                          mb: 3,
-                        }}
+                      <Stack
+                        direction="row"
+                        alignItems="center"
+                        justifyContent="space-between"
+                        flexWrap="wrap"
+                        useFlexGap
+                        spacing={2}
+                        sx={{ mb: 3 }}
                       >
-                        {t('resultsTitle')}
-                      </Typography>
+                        <Typography
+                          variant="h5"
+                          sx={{
+                            fontWeight: 600,
+                            color: '#333',
+                          }}
+                        >
+                          {t('resultsTitle')}
+                        </Typography>
+                        <FormControl size="small" sx={{ minWidth: 220 }}>
+                          <InputLabel id="max-extra-minutes-label">
+                            {t('journeyTime.maxExtraLabel', 'Max. extra time')}
+                          </InputLabel>
+                          <Select
+                            labelId="max-extra-minutes-label"
+                            value={maxExtraMinutes}
+                            onChange={handleMaxExtraMinutesChange}
+                            label={t('journeyTime.maxExtraLabel', 'Max. extra time')}
+                          >
+                            <MenuItem value="">{t('journeyTime.anyExtra', 'Any')}</MenuItem>
+                            {extraMinutesOptions.map(minutes => (
+                              <MenuItem key={minutes} value={minutes}>
+                                {t('journeyTime.extraOption', { minutes, defaultValue: 'Up to +{{minutes}} min' })}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      </Stack>
+                      {exclusionLabels(resultExclusions).length > 0 && (
+                        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                          {t('exclusions.applied', {
+                            list: exclusionLabels(resultExclusions).join(', '),
+                            defaultValue: 'Not used as exits: {{list}}',
+                          })}
+                        </Typography>
+                      )}
+                      {hiddenResultCount > 0 && (
+                        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                          {t('journeyTime.hiddenOptions', {
+                            count: hiddenResultCount,
+                            defaultValue: '{{count}} slower option(s) hidden',
+                          })}
+                        </Typography>
+                      )}
                       <Stack spacing={2}>
-                        {results.map((route, index) => {
-                          const isDirect = route.station === null;
-                          const displayStationName = route.station ? t(`stations.${route.station}`, route.station) : '';
-                          const stationLines = route.station ? getLinesForStation(route.station) : [];
+                        {visibleResults.map((route, index) => {
+                          const isDirect = route.stations.length === 0;
+                          const displayStationNames = route.stations
+                            .map(station => stationName(station))
+                            .join(' → ');
+                          const stationLines = route.stations
+                            .flatMap(station => getLinesForStation(station))
+                            .filter((line, lineIndex, lines) => lines.findIndex(l => l.id === line.id) === lineIndex);
 
                           return (
                             <Slide key={index} direction="up" in timeout={300 + index * 100}>
                               <Card
                                 elevation={route.isCheapest ? 4 : 2}
+                                onClick={() => setSelectedResultIndex(index)}
                                 sx={{
                                   border: route.isCheapest ? '3px solid #4caf50' : '1px solid rgba(0,0,0,0.12)',
+                                  outline: index === selectedResultIndex ? '3px solid #667eea' : 'none',
+                                  outlineOffset: 2,
+                                  cursor: 'pointer',
                                   position: 'relative',
                                   overflow: 'visible',
                                   transition: 'all 0.3s',
@@ -512,7 +881,7 @@ function App() {
                                           </Stack>
                                         ) : (
                                           <>
-                                            {t('viaLabel')} {displayStationName}
+                                            {t('viaLabel')} {displayStationNames}
                                           </>
                                         )}
                                       </Typography>
@@ -521,7 +890,7 @@ function App() {
                                           {stationLines.map(line => (
                                             <Chip
                                               key={line.id}
-                                              label={i18n.language.startsWith('zh') ? line.nameZh : line.nameEn}
+                                              label={currentLanguage === 'zh-Hant' ? line.nameZh : line.nameEn}
                                               size="small"
                                               sx={{
                                                 backgroundColor: line.color,
@@ -534,6 +903,67 @@ function App() {
                                           ))}
                                         </Stack>
                                       )}
+                                      {!isDirect && route.detourStops !== null && (
+                                        <Chip
+                                          label={route.detourStops === 0
+                                            ? t('legPath.onTheWay', 'No extra stops: exits on the direct path')
+                                            : t('legPath.detour', {
+                                              count: route.detourStops,
+                                              defaultValue: '+{{count}} stops of detour',
+                                            })}
+                                          size="small"
+                                          variant="outlined"
+                                          color={route.detourStops === 0 ? 'success' : 'warning'}
+                                          sx={{ mt: 1 }}
+                                        />
+                                      )}
+                                      <Stack spacing={1} sx={{ mt: 1 }}>
+                                        {route.legs.map((leg, legIndex) => (
+                                          <Box key={legIndex}>
+                                            <Typography variant="body2" color="text.secondary">
+                                              {stationName(leg.from)} → {stationName(leg.to)}: ${leg.fare.toFixed(2)}
+                                            </Typography>
+                                            {leg.path && <LegPath path={leg.path} />}
+                                          </Box>
+                                        ))}
+                                      </Stack>
+                                      <AppliedFareRules rules={route.appliedRules} />
+                                      {route.minutes !== null && (
+                                        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+                                          <Chip
+                                            icon={<AccessTimeIcon />}
+                                            label={t('journeyTime.estimate', {
+                                              minutes: Math.round(route.minutes),
+                                              defaultValue: '≈ {{minutes}} min',
+                                            })}
+                                            size="small"
+                                            variant="outlined"
+                                          />
+                                          {!isDirect && route.extraMinutes !== null && (
+                                            <Chip
+                                              label={route.extraMinutes > 0
+                                                ? t('journeyTime.extra', {
+                                                  minutes: Math.round(route.extraMinutes),
+                                                  defaultValue: '+{{minutes}} min vs direct',
+                                                })
+                                                : t('journeyTime.noExtra', 'No extra time')}
+                                              size="small"
+                                              variant="outlined"
+                                              color={route.extraMinutes > 0 ? 'warning' : 'success'}
+                                            />
+                                          )}
+                                          {!isDirect && route.savingPerExtraMinute !== null && (
+                                            <Chip
+                                              label={t('journeyTime.savingPerMinute', {
+                                                amount: `$${route.savingPerExtraMinute.toFixed(2)}`,
+                                                defaultValue: '{{amount}} saved per extra min',
+                                              })}
+                                              size="small"
+                                              variant="outlined"
+                                            />
+                                          )}
+                                        </Stack>
+                                      )}
                                     </Box>
                                     <Typography
                                       variant="h4"
@@ -551,15 +981,69 @@ function App() {
                           );
                         })}
                       </Stack>
+
+                      {/* Every payment method for the same journey */}
+                      <Typography variant="h6" sx={{ fontWeight: 600, color: '#333', mt: 4, mb: 1 }}>
+                        {t('paymentMatrix.title', 'All Payment Methods')}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        {t('paymentMatrix.hint', 'Best single split for each fare type. Click a row to see its options.')}
+                      </Typography>
+                      <PaymentMethodMatrix
+                        startStationId={results[0].legs[0].from}
+                        destStationId={results[0].legs[results[0].legs.length - 1].to}
+                        selectedMethod={paymentMethod}
+                        onSelectMethod={method => handleComparePaymentMethod(
+                          results[0].legs[0].from,
+                          results[0].legs[results[0].legs.length - 1].to,
+                          method
+                        )}
+                      />
                     </Box>
                   </Fade>
                 )}
+
+                {/* Network Map */}
+                <Box sx={{ mt: 4 }}>
+                  <Typography variant="h6" sx={{ fontWeight: 600, color: '#333', mb: 1 }}>
+                    {t('networkMap.title', 'Network Map')}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    {t('networkMap.hint', 'Click a station to set it as the start or destination. Click a result to show it on the map.')}
+                  </Typography>
+                  <NetworkMap
+                    startStationId={startStation}
+                    destStationId={destStation}
+                    splitStationIds={mapRoute?.stations}
+                    legPaths={mapRoute?.legs.map(leg => leg.path)}
+                    onSelectStart={setStartStation}
+                    onSelectDest={setDestStation}
+                  />
+                </Box>
               </Paper>
             </Fade>
           )}
 
           {/* Savings Page */}
-          {currentPage === 'savings' && <SavingsPage />}
+          {currentPage === 'savings' && !dataBlocked && (
+            <SavingsPage
+              query={savingsQuery}
+              onQueryChange={handleSavingsQueryChange}
+              exclusions={userData.preferences.exclusions}
+              onExclusionsChange={exclusions => updateUserData(data => setExclusions(data, exclusions))}
+            />
+          )}
+
+          {/* Fare Changes Page */}
+          {currentPage === 'changes' && !dataBlocked && <FareChangesPage />}
+
+          {/* Commute Planner Page */}
+          {currentPage === 'planner' && !dataBlocked && (
+            <CommutePlannerPage
+              exclusions={userData.preferences.exclusions}
+              onExclusionsChange={exclusions => updateUserData(data => setExclusions(data, exclusions))}
+            />
+          )}
 
           {/* Footer */}
           <Box sx={{ mt: 4, textAlign: 'center', color: 'white', opacity: 0.8 }}>
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Chip, Stack } from '@mui/material';
+import RuleIcon from '@mui/icons-material/Rule';
+import { AppliedFareRule } from '../data/fareRules';
+import { useIsChinese } from '../hooks/useLanguage';
+
+interface AppliedFareRulesProps {
+  rules: AppliedFareRule[];
+}
+
+// Chips for the fare rules that adjusted a split fare, with the amount each one added or took off
+const AppliedFareRules: React.FC<AppliedFareRulesProps> = ({ rules }) => {
+  const isChinese = useIsChinese();
+
+  if (rules.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 0.5 }}>
+      {rules.map(rule => (
+        <Chip
+          key={rule.ruleId}
+          icon={<RuleIcon sx={{ fontSize: '0.9rem' }} />}
+          label={`${isChinese ? rule.name['zh-Hant'] : rule.name.en} ${rule.adjustment > 0 ? '+' : '−'}$${Math.abs(rule.adjustment).toFixed(2)}`}
+          size="small"
+          variant="outlined"
+          color={rule.adjustment > 0 ? 'warning' : 'success'}
+          sx={{ fontSize: '0.7rem', height: '20px' }}
+        />
+      ))}
+    </Stack>
+  );
+};
+
+export default AppliedFareRules;
@@ -0,0 +1,437 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  Box,
+  Alert,
+  Chip,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  TextField,
+  Button,
+  IconButton,
+  Grid,
+  Card,
+  Fade,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import StationSelector from './StationSelector';
+import { getStationIdList, PAYMENT_METHODS, PaymentMethod } from '../data/fareService';
+import { MAX_SPLITS_LIMIT } from '../data/optimizer';
+import { planCommute, CommuteCost, CommuteTrip } from '../data/commutePlanner';
+import { comparePasses, CommuteOption } from '../data/passes';
+import { lightRailRouteOptions } from '../data/lightRail';
+import { allowedExitStations, allowedLegs, RouteExclusions } from '../data/routeExclusions';
+import RouteExclusionsPicker from './RouteExclusionsPicker';
+import { useStationName } from '../hooks/useStationName';
+import { useIsChinese } from '../hooks/useLanguage';
+
+const DEFAULT_TRIPS_PER_WEEK = 10;
+const DEFAULT_DAYS_PER_WEEK = 5;
+const DEFAULT_DAYS_PER_MONTH = 30;
+
+const cardSx = {
+  p: 3,
+  mb: 3,
+  borderRadius: 3,
+  background: 'white',
+  boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
+};
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+interface CommutePlannerPageProps {
+  exclusions: RouteExclusions; // Stations and lines not to split at
+  onExclusionsChange: (exclusions: RouteExclusions) => void;
+}
+
+const CommutePlannerPage: React.FC<CommutePlannerPageProps> = ({ exclusions, onExclusionsChange }) => {
+  const { t } = useTranslation();
+  const isChinese = useIsChinese();
+  const stationName = useStationName();
+  const nextTripId = useRef(1);
+  const [trips, setTrips] = useState<CommuteTrip[]>([]);
+  const [maxSplits, setMaxSplits] = useState<number>(1);
+
+  // New trip form
+  const [startStation, setStartStation] = useState<string | null>(null);
+  const [destStation, setDestStation] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('OCT_ADT_FARE');
+  const [tripsPerWeek, setTripsPerWeek] = useState<string>(String(DEFAULT_TRIPS_PER_WEEK));
+  const [daysPerWeek, setDaysPerWeek] = useState<string>(String(DEFAULT_DAYS_PER_WEEK));
+  const [daysPerMonth, setDaysPerMonth] = useState<string>(String(DEFAULT_DAYS_PER_MONTH));
+
+  // Trips are planned like the calculator's: across Light Rail when loaded, minus the excluded exits and lines
+  const plan = useMemo(() => {
+    const routeOptions = lightRailRouteOptions();
+    const exitStationIds = allowedExitStations(exclusions, routeOptions.stationIds ?? getStationIdList());
+    return planCommute(trips, maxSplits, { ...routeOptions, exitStationIds, isLegAllowed: allowedLegs(exclusions) });
+  }, [trips, maxSplits, exclusions]);
+  const passReport = useMemo(() => comparePasses(plan), [plan]);
+
+  const tripsPerWeekValue = Number(tripsPerWeek);
+  const daysPerWeekValue = Number(daysPerWeek);
+  const daysPerMonthValue = Number(daysPerMonth);
+  const canAddTrip = startStation !== null && destStation !== null && startStation !== destStation &&
+    tripsPerWeekValue > 0 && daysPerWeekValue >= 1 && daysPerWeekValue <= 7 &&
+    daysPerMonthValue > 0 && daysPerMonthValue <= 31;
+
+  const handleAddTrip = () => {
+    if (!canAddTrip) return;
+    setTrips(current => [
+      ...current,
+      {
+        id: String(nextTripId.current++),
+        startStationId: startStation!,
+        destStationId: destStation!,
+        paymentMethod,
+        tripsPerWeek: tripsPerWeekValue,
+        daysPerWeek: daysPerWeekValue,
+        daysPerMonth: daysPerMonthValue,
+      },
+    ]);
+    setStartStation(null);
+    setDestStation(null);
+  };
+
+  const handleRemoveTrip = (tripId: string) => {
+    setTrips(current => current.filter(trip => trip.id !== tripId));
+  };
+
+  const handlePaymentMethodChange = (event: SelectChangeEvent<PaymentMethod>) => {
+    setPaymentMethod(event.target.value as PaymentMethod);
+  };
+
+  const handleMaxSplitsChange = (event: SelectChangeEvent<number>) => {
+    setMaxSplits(Number(event.target.value));
+  };
+
+  const renderCostCell = (direct: CommuteCost, optimized: CommuteCost, period: keyof CommuteCost) => (
+    <TableCell key={period} align="right">
+      <Typography variant="body2">{formatMoney(optimized[period])}</Typography>
+      {optimized[period] < direct[period] && (
+        <Typography variant="caption" color="text.secondary" sx={{ textDecoration: 'line-through' }}>
+          {formatMoney(direct[period])}
+        </Typography>
+      )}
+    </TableCell>
+  );
+
+  const isCheapestOption = (option: CommuteOption) =>
+    passReport.cheapest.kind === option.kind &&
+    (option.kind !== 'pass' || (passReport.cheapest.kind === 'pass' && passReport.cheapest.passId === option.passId));
+
+  const renderOptionRow = (
+    key: string,
+    option: CommuteOption,
+    label: string,
+    monthlyCost: number,
+    covered: React.ReactNode,
+    breakEven: React.ReactNode
+  ) => (
+    <TableRow key={key} hover selected={isCheapestOption(option)}>
+      <TableCell>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <span>{label}</span>
+          {isCheapestOption(option) && (
+            <Chip label={t('cheapestOptionLabel')} color="success" size="small" />
+          )}
+        </Stack>
+      </TableCell>
+      <TableCell>{covered}</TableCell>
+      <TableCell align="right">{formatMoney(monthlyCost)}</TableCell>
+      <TableCell align="right">{breakEven}</TableCell>
+    </TableRow>
+  );
+
+  const periods: { key: keyof CommuteCost; label: string }[] = [
+    { key: 'weekly', label: t('planner.weekly', 'Weekly') },
+    { key: 'monthly', label: t('planner.monthly', 'Monthly') },
+    { key: 'yearly', label: t('planner.yearly', 'Yearly') },
+  ];
+
+  return (
+    <Fade in timeout={500}>
+      <Box>
+        {/* New recurring trip */}
+        <Card elevation={8} sx={{ ...cardSx, mt: 3 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+            {t('planner.addTripTitle', 'Add a recurring trip')}
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <StationSelector
+                value={startStation}
+                onChange={setStartStation}
+                label={t('startStationLabel')}
+                excludeStation={destStation}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <StationSelector
+                value={destStation}
+                onChange={setDestStation}
+                label={t('destStationLabel')}
+                excludeStation={startStation}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <FormControl fullWidth>
+                <InputLabel id="planner-payment-method-label">{t('paymentMethodLabel')}</InputLabel>
+                <Select
+                  labelId="planner-payment-method-label"
+                  value={paymentMethod}
+                  onChange={handlePaymentMethodChange}
+                  label={t('paymentMethodLabel')}
+                >
+                  {PAYMENT_METHODS.map(method => (
+                    <MenuItem key={method} value={method}>
+                      {t(`paymentMethods.${method}`, method)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid size={{ xs: 4, md: 2 }}>
+              <TextField
+                fullWidth
+                type="number"
+                label={t('planner.tripsPerWeek', 'Trips per week')}
+                value={tripsPerWeek}
+                onChange={event => setTripsPerWeek(event.target.value)}
+                slotProps={{ htmlInput: { min: 1, step: 1 } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 4, md: 2 }}>
+              <TextField
+                fullWidth
+                type="number"
+                label={t('planner.daysPerWeek', 'Travel days per week')}
+                value={daysPerWeek}
+                onChange={event => setDaysPerWeek(event.target.value)}
+                slotProps={{ htmlInput: { min: 1, max: 7, step: 1 } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 4, md: 2 }}>
+              <TextField
+                fullWidth
+                type="number"
+                label={t('planner.daysPerMonth', 'Days per month')}
+                value={daysPerMonth}
+                onChange={event => setDaysPerMonth(event.target.value)}
+                slotProps={{ htmlInput: { min: 1, max: 31, step: 1 } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 2 }}>
+              <Button
+                variant="contained"
+                onClick={handleAddTrip}
+                disabled={!canAddTrip}
+                fullWidth
+                startIcon={<AddIcon />}
+                sx={{
+                  height: '56px',
+                  background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                  fontWeight: 600,
+                }}
+              >
+                {t('planner.addTripButton', 'Add Trip')}
+              </Button>
+            </Grid>
+          </Grid>
+        </Card>
+
+        {/* Totals */}
+        <Card elevation={8} sx={cardSx}>
+          <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap>
+            <Box sx={{ flex: 1, minWidth: 200 }}>
+              <Typography variant="h6" sx={{ fontWeight: 600 }}>
+                {t('planner.totalsTitle', 'Projected commute cost')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('planner.projectionHint', 'Monthly cost spreads the weekly trips over the days in the month; yearly cost is 12 months.')}
+              </Typography>
+              <Box sx={{ mt: 1 }}>
+                <RouteExclusionsPicker value={exclusions} onChange={onExclusionsChange} />
+              </Box>
+            </Box>
+            <FormControl sx={{ minWidth: 150 }}>
+              <InputLabel id="planner-max-splits-label">{t('maxSplitsLabel', 'Max. Splits')}</InputLabel>
+              <Select
+                labelId="planner-max-splits-label"
+                value={maxSplits}
+                onChange={handleMaxSplitsChange}
+                label={t('maxSplitsLabel', 'Max. Splits')}
+              >
+                {Array.from({ length: MAX_SPLITS_LIMIT }, (_, i) => i + 1).map(count => (
+                  <MenuItem key={count} value={count}>
+                    {count}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            {periods.map(period => (
+              <Grid key={period.key} size={{ xs: 12, md: 4 }}>
+                <Box sx={{ p: 2, borderRadius: 2, backgroundColor: '#f5f6ff' }}>
+                  <Typography variant="subtitle2" color="text.secondary">{period.label}</Typography>
+                  <Typography variant="body2">
+                    {t('planner.directCost', 'Direct')}: {formatMoney(plan.direct[period.key])}
+                  </Typography>
+                  <Typography variant="body2">
+                    {t('planner.optimizedCost', 'Optimized')}: {formatMoney(plan.optimized[period.key])}
+                  </Typography>
+                  <Typography variant="h6" sx={{ fontWeight: 700, color: '#4caf50' }}>
+                    {t('planner.saving', 'Saving')}: {formatMoney(plan.saving[period.key])}
+                  </Typography>
+                </Box>
+              </Grid>
+            ))}
+          </Grid>
+        </Card>
+
+        {/* Passes versus pay-per-ride */}
+        {passReport.monthDays > 0 && (
+          <TableContainer component={Card} elevation={8} sx={{ ...cardSx, p: 0 }}>
+            <Typography variant="h6" sx={{ fontWeight: 600, px: 3, pt: 3 }}>
+              {t('passes.title', 'Passes or pay-per-ride?')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ px: 3, pb: 1 }}>
+              {t('passes.hint', {
+                days: passReport.monthDays,
+                defaultValue: 'Cost over a {{days}}-day month. Trips a pass does not cover are paid per ride with the best split.',
+              })}
+            </Typography>
+            <Table size="small" aria-label="pass comparison table">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('passes.option', 'Option')}</TableCell>
+                  <TableCell>{t('passes.coveredTrips', 'Covered Trips')}</TableCell>
+                  <TableCell align="right">{t('passes.monthlyCost', 'Monthly Cost')}</TableCell>
+                  <TableCell align="right">{t('passes.breakEven', 'Break-even')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {renderOptionRow(
+                  'direct', { kind: 'direct' }, t('passes.directPayPerRide', 'Direct pay-per-ride'),
+                  passReport.directMonthlyCost, '—', '—'
+                )}
+                {renderOptionRow(
+                  'split', { kind: 'split' }, t('passes.splitPayPerRide', 'Split pay-per-ride'),
+                  passReport.splitMonthlyCost, '—', '—'
+                )}
+                {passReport.passes.map(comparison => renderOptionRow(
+                  comparison.pass.id,
+                  { kind: 'pass', passId: comparison.pass.id },
+                  `${isChinese ? comparison.pass.name['zh-Hant'] : comparison.pass.name.en} (${formatMoney(comparison.pass.price)} × ${comparison.passCount}${comparison.leftoverFare > 0 ? ` + ${formatMoney(comparison.leftoverFare)}` : ''})`,
+                  comparison.monthlyCost,
+                  `${comparison.coveredTripIds.length} / ${plan.trips.filter(tripPlan => tripPlan.directFare !== null).length}`,
+                  comparison.breakEvenTrips === null
+                    ? t('passes.notCovered', 'No trips covered')
+                    : t('passes.breakEvenTrips', {
+                      count: comparison.breakEvenTrips,
+                      days: passReport.monthDays,
+                      defaultValue: '{{count}} trips in {{days}} days',
+                    })
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Recurring trips */}
+        {plan.trips.length === 0 ? (
+          <Alert severity="info" sx={{ borderRadius: 2 }}>
+            {t('planner.noTrips', 'Add the trips you make regularly to see what they cost over time.')}
+          </Alert>
+        ) : (
+          <TableContainer component={Card} elevation={8} sx={{ ...cardSx, p: 0 }}>
+            <Table size="small" aria-label="commute trips table">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('planner.trip', 'Trip')}</TableCell>
+                  <TableCell>{t('planner.bestSplit', 'Best Split')}</TableCell>
+                  <TableCell align="right">{t('planner.farePerTrip', 'Fare per Trip')}</TableCell>
+                  {periods.map(period => (
+                    <TableCell key={period.key} align="right">{period.label}</TableCell>
+                  ))}
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {plan.trips.map(({ trip, directFare, bestRoute, direct, optimized }) => {
+                  const splitStationIds = bestRoute ? bestRoute.stationIds.slice(1, -1) : [];
+                  return (
+                    <TableRow key={trip.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {stationName(trip.startStationId)} → {stationName(trip.destStationId)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {t(`paymentMethods.${trip.paymentMethod}`, trip.paymentMethod)} ·{' '}
+                          {t('planner.schedule', {
+                            trips: trip.tripsPerWeek,
+                            travelDays: trip.daysPerWeek,
+                            days: trip.daysPerMonth,
+                            defaultValue: '{{trips}} trips/week on {{travelDays}} days, {{days}} days/month',
+                          })}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {directFare === null ? (
+                          <Chip label={t('planner.noFare', 'No fare available')} size="small" color="warning" />
+                        ) : splitStationIds.length > 0 ? (
+                          <>{t('viaLabel')} {splitStationIds.map(id => stationName(id)).join(' → ')}</>
+                        ) : (
+                          <Typography variant="body2" color="text.secondary">
+                            {t('planner.directIsCheapest', 'Direct is cheapest')}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        {directFare !== null && bestRoute && (
+                          <>
+                            <Typography variant="body2">{formatMoney(bestRoute.totalFare)}</Typography>
+                            {bestRoute.totalFare < directFare && (
+                              <Typography variant="caption" color="text.secondary" sx={{ textDecoration: 'line-through' }}>
+                                {formatMoney(directFare)}
+                              </Typography>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      {periods.map(period => renderCostCell(direct, optimized, period.key))}
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          aria-label={t('planner.removeTrip', 'Remove trip')}
+                          onClick={() => handleRemoveTrip(trip.id)}
+                        >
+                          <DeleteOutlineIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Box>
+    </Fade>
+  );
+};
+
+export default CommutePlannerPage;
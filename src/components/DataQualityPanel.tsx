@@ -0,0 +1,102 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  AlertTitle,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Typography,
+  Stack,
+  Box,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { DataQualityReport, hasBlockingIssues, hasIssues } from '../data/dataValidation';
+import { useStationName } from '../hooks/useStationName';
+
+interface DataQualityPanelProps {
+  reports: DataQualityReport[];
+}
+
+// Only the first few entries of each list are shown; the counts cover the rest
+const MAX_LISTED = 20;
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ reports }) => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
+
+  const reportsWithIssues = reports.filter(hasIssues);
+  if (reportsWithIssues.length === 0) {
+    return null;
+  }
+
+  const isBlocking = reportsWithIssues.some(hasBlockingIssues);
+
+  const renderList = (title: string, items: string[]) => {
+    if (items.length === 0) return null;
+    return (
+      <Box>
+        <Typography variant="subtitle2" fontWeight={600}>
+          {title} ({items.length})
+        </Typography>
+        {items.slice(0, MAX_LISTED).map((item, index) => (
+          <Typography key={index} variant="body2" sx={{ fontFamily: 'monospace' }}>
+            {item}
+          </Typography>
+        ))}
+        {items.length > MAX_LISTED && (
+          <Typography variant="body2" color="text.secondary">
+            {t('dataQuality.more', { count: items.length - MAX_LISTED, defaultValue: '…and {{count}} more' })}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Alert severity={isBlocking ? 'error' : 'warning'} sx={{ mb: 3, borderRadius: 2 }}>
+      <AlertTitle>
+        {isBlocking
+          ? t('dataQuality.blockingTitle', 'The fare data failed validation. Results are disabled until it is fixed.')
+          : t('dataQuality.warningTitle', 'The fare data has quality issues. Some results may be affected.')}
+      </AlertTitle>
+      {reportsWithIssues.map(report => (
+        <Accordion key={report.source} disableGutters elevation={0} sx={{ backgroundColor: 'transparent' }}>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography fontWeight={600}>
+              {report.source} — {t('dataQuality.rows', { count: report.rowCount, defaultValue: '{{count}} rows' })}
+            </Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <Stack spacing={2}>
+              {renderList(t('dataQuality.missingColumns', 'Missing columns'), report.missingColumns)}
+              {renderList(t('dataQuality.unexpectedColumns', 'Unexpected columns'), report.unexpectedColumns)}
+              {renderList(
+                t('dataQuality.nonNumericFares', 'Non-numeric fares'),
+                report.nonNumericFares.map(fare =>
+                  `${stationName(fare.srcStationId)} → ${stationName(fare.destStationId)} ${fare.paymentMethod}: ${JSON.stringify(fare.value)}`
+                )
+              )}
+              {renderList(
+                t('dataQuality.missingPairs', 'Missing station pairs'),
+                report.missingPairs.map(pair => `${stationName(pair.srcStationId)} → ${stationName(pair.destStationId)}`)
+              )}
+              {renderList(
+                t('dataQuality.asymmetricFares', 'Asymmetric fares (A → B ≠ B → A)'),
+                report.asymmetricFares.map(fare =>
+                  `${stationName(fare.srcStationId)} ⇄ ${stationName(fare.destStationId)} ${fare.paymentMethod}: $${fare.fare.toFixed(2)} / $${fare.reverseFare.toFixed(2)}`
+                )
+              )}
+              {renderList(
+                t('dataQuality.invalidRows', 'Invalid rows'),
+                report.invalidRows.map(row => `#${row.row}: ${row.message}`)
+              )}
+            </Stack>
+          </AccordionDetails>
+        </Accordion>
+      ))}
+    </Alert>
+  );
+};
+
+export default DataQualityPanel;
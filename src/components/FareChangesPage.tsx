@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  CircularProgress,
+  Box,
+  Alert,
+  Chip,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  Card,
+  Fade,
+} from '@mui/material';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import TrendingDownIcon from '@mui/icons-material/TrendingDown';
+import {
+  loadFareData,
+  loadFareDataset,
+  getFareDataset,
+  FareDataset,
+  PAYMENT_METHODS,
+  PaymentMethod,
+} from '../data/fareService';
+import { getDefaultDataSource, PREVIOUS_FARE_CSV_FILE } from '../data/dataSource';
+import { diffFareDatasets, FareChange } from '../data/fareDiff';
+import { SavingInfo } from '../data/savingsCalculator';
+import { useStationName } from '../hooks/useStationName';
+
+// Only the largest changes are listed; the summary counts cover everything
+const MAX_ROWS = 200;
+
+const cardSx = {
+  p: 3,
+  mb: 3,
+  borderRadius: 3,
+  background: 'white',
+  boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
+};
+
+const FareChangesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
+  const [previousDataset, setPreviousDataset] = useState<FareDataset | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasSnapshot, setHasSnapshot] = useState<boolean>(true);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('OCT_ADT_FARE');
+
+  useEffect(() => {
+    const loadSnapshot = async () => {
+      try {
+        await loadFareData();
+        // The snapshot only exists once a data refresh has changed the fares
+        const snapshot = await loadFareDataset(getDefaultDataSource(), PREVIOUS_FARE_CSV_FILE).catch(err => {
+          console.warn('No previous fare snapshot:', err);
+          return null;
+        });
+        setHasSnapshot(snapshot !== null);
+        setPreviousDataset(snapshot);
+      } catch (err) {
+        console.error('Error loading previous fare snapshot:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadSnapshot();
+  }, []);
+
+  // Savings are only diffed for the selected payment method to keep this quick
+  const diff = useMemo(() => {
+    if (!previousDataset) return null;
+    return diffFareDatasets(previousDataset, getFareDataset(), [paymentMethod]);
+  }, [previousDataset, paymentMethod]);
+
+  const handlePaymentMethodChange = (event: SelectChangeEvent<PaymentMethod>) => {
+    setPaymentMethod(event.target.value as PaymentMethod);
+  };
+
+  if (isLoading) {
+    return (
+      <Card elevation={8} sx={{ ...cardSx, p: 6, textAlign: 'center' }}>
+        <CircularProgress size={60} sx={{ color: '#667eea' }} />
+      </Card>
+    );
+  }
+
+  if (!error && !hasSnapshot) {
+    return (
+      <Alert severity="info" sx={{ mt: 2 }}>
+        {t('changes.noSnapshot', 'There is no previous fare snapshot yet. Changes will be listed here after the next fare update.')}
+      </Alert>
+    );
+  }
+
+  if (error || !diff) {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        {t('changes.error', 'Could not load the previous fare snapshot:')} {error}
+      </Alert>
+    );
+  }
+
+  const fareChanges = [...diff.increases, ...diff.decreases]
+    .filter(change => change.paymentMethod === paymentMethod)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  const increaseCount = diff.increases.filter(change => change.paymentMethod === paymentMethod).length;
+  const decreaseCount = fareChanges.length - increaseCount;
+
+  const hasChanges = diff.increases.length > 0 || diff.decreases.length > 0 ||
+    diff.stationsAdded.length > 0 || diff.stationsRemoved.length > 0;
+
+  const renderFareRow = (change: FareChange) => (
+    <TableRow key={`${change.srcStationId}-${change.destStationId}`} hover>
+      <TableCell>{stationName(change.srcStationId)}</TableCell>
+      <TableCell>{stationName(change.destStationId)}</TableCell>
+      <TableCell align="right">${change.oldFare.toFixed(2)}</TableCell>
+      <TableCell align="right">${change.newFare.toFixed(2)}</TableCell>
+      <TableCell align="right">
+        <Chip
+          icon={change.delta > 0 ? <TrendingUpIcon /> : <TrendingDownIcon />}
+          label={`${change.delta > 0 ? '+' : '−'}$${Math.abs(change.delta).toFixed(2)}`}
+          size="small"
+          color={change.delta > 0 ? 'error' : 'success'}
+          sx={{ fontWeight: 700 }}
+        />
+      </TableCell>
+    </TableRow>
+  );
+
+  const renderSavingsList = (title: string, savings: SavingInfo[], color: 'success' | 'default') => (
+    <Box sx={{ flex: 1, minWidth: 260 }}>
+      <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+        {title} ({savings.length})
+      </Typography>
+      <Stack spacing={0.5}>
+        {savings.slice(0, MAX_ROWS).map(saving => (
+          <Stack key={`${saving.startStationId}-${saving.destStationId}`} direction="row" spacing={1} alignItems="center">
+            <Typography variant="body2" sx={{ flex: 1 }}>
+              {stationName(saving.startStationId)} → {stationName(saving.destStationId)}
+              {' '}({t('viaLabel')} {stationName(saving.intermediateStationId)})
+            </Typography>
+            <Chip label={`$${saving.saving.toFixed(2)}`} size="small" color={color} />
+          </Stack>
+        ))}
+      </Stack>
+    </Box>
+  );
+
+  return (
+    <Fade in timeout={500}>
+      <Box>
+        {/* Summary and payment method */}
+        <Card elevation={8} sx={{ ...cardSx, mt: 3 }}>
+          <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap>
+            <Box sx={{ flex: 1, minWidth: 200 }}>
+              <Typography variant="h6" sx={{ fontWeight: 600 }}>
+                {t('changes.summaryTitle', 'Changes since the previous fare snapshot')}
+              </Typography>
+              {!hasChanges && (
+                <Typography variant="body2" color="text.secondary">
+                  {t('changes.noChanges', 'No fares or stations changed.')}
+                </Typography>
+              )}
+            </Box>
+            <FormControl sx={{ minWidth: 250 }}>
+              <InputLabel id="changes-payment-method-label">{t('paymentMethodLabel')}</InputLabel>
+              <Select
+                labelId="changes-payment-method-label"
+                value={paymentMethod}
+                onChange={handlePaymentMethodChange}
+                label={t('paymentMethodLabel')}
+              >
+                {PAYMENT_METHODS.map(method => (
+                  <MenuItem key={method} value={method}>
+                    {t(`paymentMethods.${method}`, method)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+          <Stack direction="row" spacing={1} sx={{ mt: 2 }} flexWrap="wrap" useFlexGap>
+            <Chip color="error" label={`${t('changes.increases', 'Fare increases')}: ${increaseCount}`} />
+            <Chip color="success" label={`${t('changes.decreases', 'Fare decreases')}: ${decreaseCount}`} />
+            <Chip label={`${t('changes.stationsAdded', 'Stations added')}: ${diff.stationsAdded.length}`} />
+            <Chip label={`${t('changes.stationsRemoved', 'Stations removed')}: ${diff.stationsRemoved.length}`} />
+            <Chip label={`${t('changes.savingsGained', 'Savings routes gained')}: ${diff.savingsGained.length}`} />
+            <Chip label={`${t('changes.savingsLost', 'Savings routes lost')}: ${diff.savingsLost.length}`} />
+          </Stack>
+        </Card>
+
+        {/* Stations added or removed */}
+        {(diff.stationsAdded.length > 0 || diff.stationsRemoved.length > 0) && (
+          <Card elevation={8} sx={cardSx}>
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+              {diff.stationsAdded.map(station => (
+                <Chip key={station.stationId} color="success" label={`+ ${station.stationName}`} />
+              ))}
+              {diff.stationsRemoved.map(station => (
+                <Chip key={station.stationId} color="error" label={`− ${station.stationName}`} />
+              ))}
+            </Stack>
+          </Card>
+        )}
+
+        {/* Savings routes gained or lost */}
+        {(diff.savingsGained.length > 0 || diff.savingsLost.length > 0) && (
+          <Card elevation={8} sx={cardSx}>
+            <Stack direction="row" spacing={3} flexWrap="wrap" useFlexGap>
+              {renderSavingsList(
+                t('changes.savingsGained', 'Savings routes gained'),
+                diff.savingsGained.map(change => change.saving),
+                'success'
+              )}
+              {renderSavingsList(
+                t('changes.savingsLost', 'Savings routes lost'),
+                diff.savingsLost.map(change => change.saving),
+                'default'
+              )}
+            </Stack>
+          </Card>
+        )}
+
+        {/* Fare changes for the selected payment method */}
+        {fareChanges.length > 0 && (
+          <TableContainer component={Card} elevation={8} sx={{ ...cardSx, p: 0 }}>
+            <Table size="small" aria-label="fare changes table">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('savings.header.from', 'From')}</TableCell>
+                  <TableCell>{t('savings.header.to', 'To')}</TableCell>
+                  <TableCell align="right">{t('changes.oldFare', 'Old Fare ($)')}</TableCell>
+                  <TableCell align="right">{t('changes.newFare', 'New Fare ($)')}</TableCell>
+                  <TableCell align="right">{t('changes.change', 'Change')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>{fareChanges.slice(0, MAX_ROWS).map(renderFareRow)}</TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Box>
+    </Fade>
+  );
+};
+
+export default FareChangesPage;
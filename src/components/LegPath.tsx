@@ -0,0 +1,66 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Chip, Stack, Typography } from '@mui/material';
+import DirectionsWalkIcon from '@mui/icons-material/DirectionsWalk';
+import { NetworkPath } from '../data/networkGraph';
+import { LIGHT_RAIL_LINE } from '../data/lightRail';
+import { getLineById } from '../data/mtrLines';
+import { useStationName } from '../hooks/useStationName';
+import { useIsChinese } from '../hooks/useLanguage';
+
+interface LegPathProps {
+  path: NetworkPath;
+}
+
+// The lines ridden on one leg, with the number of stops on each and where to change
+const LegPath: React.FC<LegPathProps> = ({ path }) => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
+  const isChinese = useIsChinese();
+
+  return (
+    <Stack direction="row" spacing={0.5} alignItems="center" flexWrap="wrap" useFlexGap sx={{ mt: 0.5 }}>
+      {path.segments.map((segment, index) => {
+        const line = segment.lineId === LIGHT_RAIL_LINE.id
+          ? LIGHT_RAIL_LINE
+          : segment.lineId ? getLineById(segment.lineId) : undefined;
+        const stops = segment.stationIds.length - 1;
+        const endStationId = segment.stationIds[segment.stationIds.length - 1];
+        const isLast = index === path.segments.length - 1;
+
+        return (
+          <React.Fragment key={index}>
+            {line ? (
+              <Chip
+                label={`${isChinese ? line.nameZh : line.nameEn} · ${t('legPath.stops', { count: stops, defaultValue: '{{count}} stops' })}`}
+                size="small"
+                sx={{
+                  backgroundColor: line.color,
+                  color: line.textColor,
+                  fontWeight: 600,
+                  fontSize: '0.7rem',
+                  height: '20px',
+                }}
+              />
+            ) : (
+              <Chip
+                icon={<DirectionsWalkIcon />}
+                label={t('legPath.walk', { station: stationName(endStationId), defaultValue: 'Walk to {{station}}' })}
+                size="small"
+                variant="outlined"
+                sx={{ fontSize: '0.7rem', height: '20px' }}
+              />
+            )}
+            {!isLast && segment.lineId !== null && path.segments[index + 1].lineId !== null && (
+              <Typography variant="caption" color="text.secondary">
+                {t('legPath.changeAt', { station: stationName(endStationId), defaultValue: 'change at {{station}}' })}
+              </Typography>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </Stack>
+  );
+};
+
+export default LegPath;
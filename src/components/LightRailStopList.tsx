@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Box, Button, Chip, Stack } from '@mui/material';
+import { getLinesForStation } from '../data/mtrLines';
+import { isLightRailStop, LIGHT_RAIL_LINE, LightRailRoute } from '../data/lightRail';
+import { useStationName } from '../hooks/useStationName';
+
+interface LightRailStopListProps {
+  routes: readonly LightRailRoute[];
+  excludeStation?: string | null; // Optional: exclude a station ID from selection
+  onSelect: (stationId: string) => void;
+}
+
+// Light Rail tab of the station selector: pick a route, then a stop along it.
+// Stops that are also MTR stations show the colours of the lines they connect to.
+const LightRailStopList: React.FC<LightRailStopListProps> = ({ routes, excludeStation, onSelect }) => {
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  const getStationName = useStationName();
+
+  const selectedRoute = routes.find(route => route.id === selectedRouteId) || routes[0];
+  if (!selectedRoute) return null;
+
+  return (
+    <>
+      {/* Route chips */}
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ pb: 1 }}>
+        {routes.map(route => {
+          const isSelected = route.id === selectedRoute.id;
+          return (
+            <Chip
+              key={route.id}
+              label={route.id}
+              clickable
+              variant={isSelected ? 'filled' : 'outlined'}
+              onClick={() => setSelectedRouteId(route.id)}
+              sx={{
+                fontWeight: 600,
+                backgroundColor: isSelected ? LIGHT_RAIL_LINE.color : undefined,
+                color: isSelected ? LIGHT_RAIL_LINE.textColor : undefined,
+                borderColor: LIGHT_RAIL_LINE.color,
+              }}
+            />
+          );
+        })}
+      </Stack>
+
+      {selectedRoute.stations.map((station, index) => {
+        const isDisabled = station === excludeStation;
+        const mtrLines = isLightRailStop(station) ? [] : getLinesForStation(station);
+        const isInterchange = mtrLines.length > 0;
+
+        return (
+          <Box
+            key={`${selectedRoute.id}-${index}-${station}`}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              position: 'relative',
+            }}
+          >
+            {/* Line connector */}
+            {index < selectedRoute.stations.length - 1 && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: 15,
+                  top: 32,
+                  width: 3,
+                  height: 'calc(100% + 8px)',
+                  backgroundColor: LIGHT_RAIL_LINE.color,
+                }}
+              />
+            )}
+
+            {/* Stop dot */}
+            <Box
+              sx={{
+                width: 32,
+                height: 32,
+                borderRadius: '50%',
+                backgroundColor: LIGHT_RAIL_LINE.color,
+                border: isInterchange ? `4px solid white` : 'none',
+                boxShadow: isInterchange ? `0 0 0 2px ${LIGHT_RAIL_LINE.color}` : 'none',
+                flexShrink: 0,
+                mr: 2,
+                zIndex: 1,
+              }}
+            />
+
+            {/* Stop button */}
+            <Button
+              fullWidth
+              variant="outlined"
+              disabled={isDisabled}
+              onClick={() => onSelect(station)}
+              sx={{
+                justifyContent: 'space-between',
+                textTransform: 'none',
+                fontWeight: 500,
+                borderColor: 'rgba(0, 0, 0, 0.12)',
+                color: 'text.primary',
+                '&:hover': {
+                  backgroundColor: `${LIGHT_RAIL_LINE.color}15`,
+                  borderColor: LIGHT_RAIL_LINE.color,
+                },
+                '&.Mui-disabled': {
+                  borderColor: 'rgba(0, 0, 0, 0.12)',
+                  color: 'text.disabled',
+                },
+              }}
+            >
+              <span>{getStationName(station)}</span>
+              {isInterchange && (
+                <Stack direction="row" spacing={0.5}>
+                  {mtrLines.slice(0, 2).map(line => (
+                    <Box
+                      key={line.id}
+                      sx={{
+                        width: 8,
+                        height: 8,
+                        borderRadius: '50%',
+                        backgroundColor: line.color,
+                      }}
+                    />
+                  ))}
+                </Stack>
+              )}
+            </Button>
+          </Box>
+        );
+      })}
+    </>
+  );
+};
+
+export default LightRailStopList;
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Box, Menu, MenuItem, Stack, Typography } from '@mui/material';
+import { getNetworkLayout, MapPoint } from '../data/networkLayout';
+import { NetworkPath } from '../data/networkGraph';
+import { LIGHT_RAIL_LINE } from '../data/lightRail';
+import { getLineById } from '../data/mtrLines';
+import { useStationName } from '../hooks/useStationName';
+
+interface NetworkMapProps {
+  startStationId: string | null;
+  destStationId: string | null;
+  splitStationIds?: string[]; // Exit stations of the highlighted route
+  legPaths?: (NetworkPath | null)[]; // Physical path of each leg of the highlighted route
+  onSelectStart: (stationId: string) => void;
+  onSelectDest: (stationId: string) => void;
+}
+
+const START_COLOR = '#4caf50';
+const SPLIT_COLOR = '#ff9800';
+const DEST_COLOR = '#e53935';
+
+const toPoints = (stationIds: string[], positions: Map<string, MapPoint>) =>
+  stationIds
+    .map(stationId => positions.get(stationId))
+    .filter((point): point is MapPoint => point !== undefined)
+    .map(point => `${point.x},${point.y}`)
+    .join(' ');
+
+// Schematic map of the whole network; the highlighted route's legs are drawn on top,
+// and clicking a station offers to make it the start or the destination
+const NetworkMap: React.FC<NetworkMapProps> = ({
+  startStationId,
+  destStationId,
+  splitStationIds = [],
+  legPaths = [],
+  onSelectStart,
+  onSelectDest,
+}) => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
+  const layout = useMemo(() => getNetworkLayout(), []);
+  const [menu, setMenu] = useState<{ stationId: string; left: number; top: number } | null>(null);
+
+  const hasRoute = legPaths.some(path => path !== null);
+  const routeStationIds = [startStationId, ...splitStationIds, destStationId]
+    .filter((stationId): stationId is string => stationId !== null);
+
+  const markerColor = (stationId: string) => {
+    if (stationId === startStationId) return START_COLOR;
+    if (stationId === destStationId) return DEST_COLOR;
+    if (splitStationIds.includes(stationId)) return SPLIT_COLOR;
+    return null;
+  };
+
+  const handleStationClick = (event: React.MouseEvent, stationId: string) => {
+    setMenu({ stationId, left: event.clientX, top: event.clientY });
+  };
+
+  const handleSelect = (select: (stationId: string) => void) => {
+    if (menu) select(menu.stationId);
+    setMenu(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        component="svg"
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        role="img"
+        aria-label={t('networkMap.ariaLabel', 'MTR network map')}
+        sx={{ width: '100%', height: 'auto', display: 'block' }}
+      >
+        {/* Lines */}
+        <g opacity={hasRoute ? 0.3 : 1}>
+          {layout.lines.map(line =>
+            line.sequences.map((sequence, index) => (
+              <polyline
+                key={`${line.lineId}-${index}`}
+                points={toPoints(sequence, layout.positions)}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={5}
+                strokeLinejoin="round"
+                strokeLinecap="round"
+              />
+            ))
+          )}
+        </g>
+
+        {/* Highlighted legs */}
+        {legPaths.map((path, legIndex) =>
+          path?.segments.map((segment, segmentIndex) => (
+            <polyline
+              key={`${legIndex}-${segmentIndex}`}
+              points={toPoints(segment.stationIds, layout.positions)}
+              fill="none"
+              stroke={segment.lineId === LIGHT_RAIL_LINE.id
+                ? LIGHT_RAIL_LINE.color
+                : segment.lineId ? getLineById(segment.lineId)?.color ?? '#666' : '#666'}
+              strokeWidth={segment.lineId ? 9 : 4}
+              strokeDasharray={segment.lineId ? undefined : '6 6'}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+          ))
+        )}
+
+        {/* Stations */}
+        {Array.from(layout.positions.entries()).map(([stationId, point]) => {
+          const color = markerColor(stationId);
+          const isInterchange = layout.interchangeStationIds.has(stationId);
+          return (
+            <circle
+              key={stationId}
+              cx={point.x}
+              cy={point.y}
+              r={color ? 9 : isInterchange ? 6 : 4}
+              fill={color ?? 'white'}
+              stroke={color ? 'white' : '#333'}
+              strokeWidth={color ? 3 : isInterchange ? 2 : 1.5}
+              style={{ cursor: 'pointer' }}
+              onClick={event => handleStationClick(event, stationId)}
+            >
+              <title>{stationName(stationId)}</title>
+            </circle>
+          );
+        })}
+
+        {/* Labels for the stations on the route */}
+        {routeStationIds.map(stationId => {
+          const point = layout.positions.get(stationId);
+          if (!point) return null;
+          return (
+            <text
+              key={`label-${stationId}`}
+              x={point.x + 12}
+              y={point.y - 10}
+              fontSize={16}
+              fontWeight={700}
+              fill="#333"
+              stroke="white"
+              strokeWidth={4}
+              paintOrder="stroke"
+              pointerEvents="none"
+            >
+              {stationName(stationId)}
+            </text>
+          );
+        })}
+      </Box>
+
+      <Stack direction="row" spacing={2} justifyContent="center" flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+        {[
+          { color: START_COLOR, label: t('networkMap.start', 'Start') },
+          { color: SPLIT_COLOR, label: t('networkMap.split', 'Split station') },
+          { color: DEST_COLOR, label: t('networkMap.destination', 'Destination') },
+        ].map(item => (
+          <Stack key={item.label} direction="row" spacing={0.5} alignItems="center">
+            <Box sx={{ width: 12, height: 12, borderRadius: '50%', backgroundColor: item.color }} />
+            <Typography variant="caption">{item.label}</Typography>
+          </Stack>
+        ))}
+      </Stack>
+
+      <Menu
+        open={menu !== null}
+        onClose={() => setMenu(null)}
+        anchorReference="anchorPosition"
+        anchorPosition={menu ? { top: menu.top, left: menu.left } : undefined}
+      >
+        {menu && (
+          <MenuItem disabled divider>
+            {stationName(menu.stationId)}
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => handleSelect(onSelectStart)}>
+          {t('networkMap.setStart', 'Set as start')}
+        </MenuItem>
+        <MenuItem onClick={() => handleSelect(onSelectDest)}>
+          {t('networkMap.setDestination', 'Set as destination')}
+        </MenuItem>
+      </Menu>
+    </Box>
+  );
+};
+
+export default NetworkMap;
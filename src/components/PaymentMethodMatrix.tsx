@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { PaymentMethod } from '../data/fareService';
+import { comparePaymentMethods } from '../data/paymentComparison';
+import { useStationName } from '../hooks/useStationName';
+import AppliedFareRules from './AppliedFareRules';
+
+interface PaymentMethodMatrixProps {
+  startStationId: string;
+  destStationId: string;
+  selectedMethod: PaymentMethod;
+  onSelectMethod: (paymentMethod: PaymentMethod) => void;
+}
+
+const formatMoney = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+
+// Direct fare, best split and saving for one journey under every payment method;
+// clicking a row recalculates the journey with that method
+const PaymentMethodMatrix: React.FC<PaymentMethodMatrixProps> = ({
+  startStationId,
+  destStationId,
+  selectedMethod,
+  onSelectMethod,
+}) => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
+  const comparisons = useMemo(
+    () => comparePaymentMethods(startStationId, destStationId),
+    [startStationId, destStationId]
+  );
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('paymentMatrix.method', 'Payment method')}</TableCell>
+            <TableCell align="right">{t('paymentMatrix.directFare', 'Direct fare')}</TableCell>
+            <TableCell align="right">{t('paymentMatrix.splitFare', 'Best split fare')}</TableCell>
+            <TableCell>{t('paymentMatrix.splitStation', 'Split at')}</TableCell>
+            <TableCell align="right">{t('paymentMatrix.saving', 'Saving')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {comparisons.map(comparison => (
+            <TableRow
+              key={comparison.paymentMethod}
+              hover
+              selected={comparison.paymentMethod === selectedMethod}
+              onClick={() => onSelectMethod(comparison.paymentMethod)}
+              sx={{ cursor: 'pointer' }}
+            >
+              <TableCell>{t(`paymentMethods.${comparison.paymentMethod}`, comparison.paymentMethod)}</TableCell>
+              <TableCell align="right">{formatMoney(comparison.directFare)}</TableCell>
+              <TableCell align="right">
+                {formatMoney(comparison.bestSplitFare)}
+                <AppliedFareRules rules={comparison.appliedRules} />
+              </TableCell>
+              <TableCell>
+                {comparison.bestSplitStationId ? stationName(comparison.bestSplitStationId) : '—'}
+              </TableCell>
+              <TableCell align="right">
+                {comparison.saving > 0 ? (
+                  <Typography variant="body2" sx={{ color: '#4caf50', fontWeight: 600 }}>
+                    {formatMoney(comparison.saving)}
+                  </Typography>
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    {t('paymentMatrix.noSaving', 'No saving')}
+                  </Typography>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default PaymentMethodMatrix;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import HistoryIcon from '@mui/icons-material/History';
+import { PaymentMethod } from '../data/fareService';
+import { FavouriteRoute, HistoryEntry } from '../userStorage';
+import { useStationName } from '../hooks/useStationName';
+
+// Recent queries shown before "show all"
+const COLLAPSED_HISTORY_COUNT = 5;
+
+interface QuickPicksProps {
+  favourites: FavouriteRoute[];
+  history: HistoryEntry[];
+  startStationId: string | null;
+  destStationId: string | null;
+  paymentMethod: PaymentMethod;
+  defaultPaymentMethod: PaymentMethod | null;
+  onPickFavourite: (favourite: FavouriteRoute) => void;
+  onPickHistory: (entry: HistoryEntry) => void;
+  onAddFavourite: (nickname: string, rememberPaymentMethod: boolean) => void;
+  onRemoveFavourite: (id: string) => void;
+  onRemoveHistory: (index: number) => void;
+  onSetDefaultPaymentMethod: (paymentMethod: PaymentMethod | null) => void;
+}
+
+// Chips for favourite routes and recent queries, plus saving the current route
+// as a favourite and making the current payment method the default
+const QuickPicks: React.FC<QuickPicksProps> = ({
+  favourites,
+  history,
+  startStationId,
+  destStationId,
+  paymentMethod,
+  defaultPaymentMethod,
+  onPickFavourite,
+  onPickHistory,
+  onAddFavourite,
+  onRemoveFavourite,
+  onRemoveHistory,
+  onSetDefaultPaymentMethod,
+}) => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [nickname, setNickname] = useState('');
+  const [rememberPaymentMethod, setRememberPaymentMethod] = useState(false);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+
+  const routeLabel = (start: string, dest: string) => `${stationName(start)} → ${stationName(dest)}`;
+  const visibleHistory = showAllHistory ? history : history.slice(0, COLLAPSED_HISTORY_COUNT);
+  const isDefaultPaymentMethod = paymentMethod === defaultPaymentMethod;
+
+  const openDialog = () => {
+    if (!startStationId || !destStationId) return;
+    setNickname(routeLabel(startStationId, destStationId));
+    setRememberPaymentMethod(false);
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    onAddFavourite(nickname.trim(), rememberPaymentMethod);
+    setDialogOpen(false);
+  };
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      {favourites.length > 0 && (
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+            {t('quickPicks.favourites', 'Favourites')}
+          </Typography>
+          {favourites.map(favourite => (
+            <Chip
+              key={favourite.id}
+              icon={<StarIcon />}
+              label={favourite.nickname}
+              title={routeLabel(favourite.startStationId, favourite.destStationId)}
+              onClick={() => onPickFavourite(favourite)}
+              onDelete={() => onRemoveFavourite(favourite.id)}
+              color="warning"
+              variant="outlined"
+              size="small"
+            />
+          ))}
+        </Stack>
+      )}
+
+      {history.length > 0 && (
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ fontWeight: 600 }}>
+            {t('quickPicks.recent', 'Recent')}
+          </Typography>
+          {visibleHistory.map((entry, index) => (
+            <Chip
+              key={`${entry.startStationId}-${entry.destStationId}-${entry.paymentMethod}-${entry.maxSplits}`}
+              icon={<HistoryIcon />}
+              label={`${routeLabel(entry.startStationId, entry.destStationId)} · $${entry.bestFare.toFixed(2)}`}
+              title={t(`paymentMethods.${entry.paymentMethod}`, entry.paymentMethod)}
+              onClick={() => onPickHistory(entry)}
+              onDelete={() => onRemoveHistory(index)}
+              variant="outlined"
+              size="small"
+            />
+          ))}
+          {history.length > COLLAPSED_HISTORY_COUNT && (
+            <Button size="small" onClick={() => setShowAllHistory(!showAllHistory)}>
+              {showAllHistory
+                ? t('quickPicks.showLess', 'Show less')
+                : t('quickPicks.showAll', { count: history.length, defaultValue: 'Show all {{count}}' })}
+            </Button>
+          )}
+        </Stack>
+      )}
+
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Button
+          size="small"
+          startIcon={<StarBorderIcon />}
+          onClick={openDialog}
+          disabled={!startStationId || !destStationId || startStationId === destStationId}
+        >
+          {t('quickPicks.saveFavourite', 'Save route as favourite')}
+        </Button>
+        <Button
+          size="small"
+          onClick={() => onSetDefaultPaymentMethod(isDefaultPaymentMethod ? null : paymentMethod)}
+        >
+          {isDefaultPaymentMethod
+            ? t('quickPicks.clearDefaultPayment', 'Stop using {{method}} by default', {
+              method: t(`paymentMethods.${paymentMethod}`, paymentMethod),
+            })
+            : t('quickPicks.setDefaultPayment', 'Use {{method}} by default', {
+              method: t(`paymentMethods.${paymentMethod}`, paymentMethod),
+            })}
+        </Button>
+      </Stack>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('quickPicks.saveFavourite', 'Save route as favourite')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label={t('quickPicks.nickname', 'Nickname')}
+            value={nickname}
+            onChange={event => setNickname(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter' && nickname.trim()) handleSave();
+            }}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={rememberPaymentMethod}
+                onChange={event => setRememberPaymentMethod(event.target.checked)}
+              />
+            }
+            label={t('quickPicks.rememberPayment', 'Always use {{method}} for this route', {
+              method: t(`paymentMethods.${paymentMethod}`, paymentMethod),
+            })}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>{t('quickPicks.cancel', 'Cancel')}</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!nickname.trim()}>
+            {t('quickPicks.save', 'Save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default QuickPicks;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  Stack,
+  Typography,
+} from '@mui/material';
+import BlockIcon from '@mui/icons-material/Block';
+import { getMtrLines } from '../data/mtrLines';
+import { hasLightRailData, LIGHT_RAIL_LINE } from '../data/lightRail';
+import {
+  getExclusionPresets,
+  isExclusionActive,
+  NO_EXCLUSIONS,
+  RouteExclusions,
+} from '../data/routeExclusions';
+import { useExclusionLabels } from '../hooks/useExclusionLabels';
+import { useStationName } from '../hooks/useStationName';
+import { useIsChinese } from '../hooks/useLanguage';
+import StationSelector from './StationSelector';
+
+interface RouteExclusionsPickerProps {
+  value: RouteExclusions;
+  onChange: (exclusions: RouteExclusions) => void;
+}
+
+// Shows the active exclusions, with a dialog to choose presets, lines to avoid
+// and stations never to exit at. Changes apply as they are made.
+const RouteExclusionsPicker: React.FC<RouteExclusionsPickerProps> = ({ value, onChange }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const exclusionLabels = useExclusionLabels();
+  const stationName = useStationName();
+
+  const currentLanguage = useIsChinese() ? 'zh' : 'en';
+  const labels = exclusionLabels(value);
+  const lines = hasLightRailData() ? [...getMtrLines(), LIGHT_RAIL_LINE] : getMtrLines();
+
+  // Add or remove one item from a list
+  const toggle = (list: string[], item: string) =>
+    list.includes(item) ? list.filter(existing => existing !== item) : [...list, item];
+
+  return (
+    <>
+      <Stack direction="row" alignItems="center" flexWrap="wrap" useFlexGap spacing={1}>
+        <BlockIcon color="action" fontSize="small" />
+        <Typography variant="body2" color="text.secondary">
+          {t('exclusions.label', 'Excluded from splits:')}
+        </Typography>
+        {labels.length === 0 ? (
+          <Typography variant="body2">{t('exclusions.none', 'Nothing')}</Typography>
+        ) : (
+          labels.map(label => <Chip key={label} label={label} size="small" />)
+        )}
+        <Button size="small" onClick={() => setOpen(true)}>
+          {t('exclusions.edit', 'Edit')}
+        </Button>
+        {isExclusionActive(value) && (
+          <Button size="small" color="inherit" onClick={() => onChange(NO_EXCLUSIONS)}>
+            {t('exclusions.clear', 'Clear')}
+          </Button>
+        )}
+      </Stack>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('exclusions.title', 'Exclude from splits')}</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={3}>
+            {/* Presets */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('exclusions.presets', 'Presets')}
+              </Typography>
+              <FormGroup>
+                {getExclusionPresets().map(preset => (
+                  <FormControlLabel
+                    key={preset.id}
+                    control={
+                      <Checkbox
+                        checked={value.presetIds.includes(preset.id)}
+                        onChange={() => onChange({ ...value, presetIds: toggle(value.presetIds, preset.id) })}
+                      />
+                    }
+                    label={currentLanguage === 'zh' ? preset.name['zh-Hant'] : preset.name.en}
+                  />
+                ))}
+              </FormGroup>
+            </Box>
+
+            {/* Lines */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('exclusions.lines', 'Avoid these lines')}
+              </Typography>
+              <Stack direction="row" flexWrap="wrap" useFlexGap spacing={1}>
+                {lines.map(line => {
+                  const isSelected = value.lineIds.includes(line.id);
+                  return (
+                    <Chip
+                      key={line.id}
+                      label={currentLanguage === 'zh' ? line.nameZh : line.nameEn}
+                      clickable
+                      variant={isSelected ? 'filled' : 'outlined'}
+                      onClick={() => onChange({ ...value, lineIds: toggle(value.lineIds, line.id) })}
+                      sx={{
+                        fontWeight: 600,
+                        backgroundColor: isSelected ? line.color : undefined,
+                        color: isSelected ? line.textColor : undefined,
+                        borderColor: line.color,
+                      }}
+                    />
+                  );
+                })}
+              </Stack>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                {t('exclusions.linesHint', 'Interchange stations stay available through their other lines.')}
+              </Typography>
+            </Box>
+
+            {/* Stations */}
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                {t('exclusions.stations', 'Never exit at these stations')}
+              </Typography>
+              <StationSelector
+                value={null}
+                onChange={stationId => {
+                  if (stationId && !value.stationIds.includes(stationId)) {
+                    onChange({ ...value, stationIds: [...value.stationIds, stationId] });
+                  }
+                }}
+                label={t('exclusions.addStation', 'Add a station')}
+              />
+              <Stack direction="row" flexWrap="wrap" useFlexGap spacing={1} sx={{ mt: 1 }}>
+                {value.stationIds.map(stationId => (
+                  <Chip
+                    key={stationId}
+                    label={stationName(stationId)}
+                    onDelete={() => onChange({ ...value, stationIds: toggle(value.stationIds, stationId) })}
+                  />
+                ))}
+              </Stack>
+            </Box>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>{t('close', 'Close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default RouteExclusionsPicker;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Table,
@@ -9,7 +9,7 @@ import {
   TableRow,
   Paper,
   Typography,
-  CircularProgress,
+  LinearProgress,
   Box,
   Alert,
   TableSortLabel,
@@ -22,33 +22,48 @@ import {
   SelectChangeEvent,
   Card,
   Fade,
+  Grid,
+  TextField,
+  Button,
+  InputAdornment,
+  Menu,
 } from '@mui/material';
 import { visuallyHidden } from '@mui/utils';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
+import SearchIcon from '@mui/icons-material/Search';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { getFareDataDate, getFareDataHash, getStationIdList, loadFareData, PaymentMethod } from '../data/fareService';
+import { getLinesForStation, getMtrLines } from '../data/mtrLines';
+import { SavingInfo } from '../data/savingsCalculator';
+import { getFareRulesFor } from '../data/fareRules';
 import {
-  loadFareData,
-  getFare,
-  getStationName,
-  getAllFareRecords,
-  PaymentMethod,
-} from '../data/fareService';
-import { getLinesForStation } from '../data/mtrLines';
-
-interface SavingInfo {
-  startStationId: string;
-  startStationName: string;
-  destStationId: string;
-  destStationName: string;
-  intermediateStationId: string;
-  intermediateStationName: string;
-  directFare: number;
-  intermediateFare: number;
-  saving: number;
+  DEFAULT_SAVINGS_FILTER,
+  filterSavings,
+  isSavingsFilterActive,
+  savingPercent,
+  SavingsFilter,
+  StationRole,
+} from '../data/savingsFilter';
+import { EXPORT_FILE_TYPES, EXPORT_FORMATS, ExportFormat, exportSavings } from '../data/savingsExport';
+import { allowedExitStations, RouteExclusions } from '../data/routeExclusions';
+import AppliedFareRules from './AppliedFareRules';
+import RouteExclusionsPicker from './RouteExclusionsPicker';
+import StationSelector from './StationSelector';
+import { useStationName } from '../hooks/useStationName';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useIsChinese } from '../hooks/useLanguage';
+import { loadIndexedSavings } from '../data/savingsIndex';
+import { createSavingsWorker } from '../workers/createSavingsWorker';
+import { Order, SavingsQuery, SortableColumn } from '../urlState';
+import { SavingsWorkerRequest, SavingsWorkerResponse } from '../workers/savingsProtocol';
+
+interface SavingsPageProps {
+  query: SavingsQuery;
+  onQueryChange: (query: SavingsQuery) => void;
+  exclusions: RouteExclusions; // Stations and lines not to use as the split
+  onExclusionsChange: (exclusions: RouteExclusions) => void;
 }
 
-type Order = 'asc' | 'desc';
-type SortableColumn = keyof SavingInfo;
-
 // Helper function for stable sorting
 function stableSort<T>(array: readonly T[], comparator: (a: T, b: T) => number) {
   const stabilizedThis = array.map((el, index) => [el, index] as [T, number]);
@@ -99,165 +114,195 @@ const paymentMethodOptions: { value: PaymentMethod; label: string }[] = [
   { value: 'SINGLE_CON_ELDERLY_FARE', label: 'Elderly Single Journey' },
 ];
 
-const SavingsPage: React.FC = () => {
-  const { t, i18n } = useTranslation();
+// The table renders only the rows in view; every row has the same height
+const ROW_HEIGHT = 80;
+const TABLE_HEIGHT = 640;
+
+const stationRoles: StationRole[] = ['any', 'origin', 'destination', 'via'];
+
+// Save text as a file through a temporary download link
+const downloadText = (text: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Parse a number field, treating an empty or invalid entry as no limit
+const parseLimit = (value: string): number | null => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const SavingsPage: React.FC<SavingsPageProps> = ({ query, onQueryChange, exclusions, onExclusionsChange }) => {
+  const { t } = useTranslation();
+  const stationName = useStationName();
   const [savings, setSavings] = useState<SavingInfo[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [order, setOrder] = useState<Order>('desc');
-  const [orderBy, setOrderBy] = useState<SortableColumn>('saving');
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('OCT_ADT_FARE');
+  // Sorting and payment method live in the URL so they can be shared
+  const { order, sort: orderBy, pay: paymentMethod } = query;
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [filter, setFilter] = useState<SavingsFilter>(DEFAULT_SAVINGS_FILTER);
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef<number>(0);
+  const tableRef = useRef<HTMLDivElement | null>(null);
+
+  // Create one worker for the lifetime of the page
+  useEffect(() => {
+    const worker = createSavingsWorker();
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<SavingsWorkerResponse>) => {
+      const message = event.data;
+      // Ignore messages from runs that have since been cancelled
+      if (message.runId !== runIdRef.current) return;
+
+      switch (message.type) {
+        case 'progress':
+          setProgress({ completed: message.completed, total: message.total });
+          break;
+        case 'result':
+          setSavings(message.savings);
+          setIsLoading(false);
+          break;
+        case 'error':
+          console.error('Error calculating savings:', message.message);
+          setError(message.message);
+          setIsLoading(false);
+          break;
+        case 'cancelled':
+          break;
+      }
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
 
+  // Stations allowed as the split, or undefined when nothing is excluded
+  const exitStationIds = useMemo(() => {
+    const allowed = allowedExitStations(exclusions, getStationIdList());
+    return allowed ? Array.from(allowed) : undefined;
+  }, [exclusions]);
+
+  // Start a new run whenever the payment method or exclusions change, cancelling the previous one.
+  // The precomputed index is used when it matches the loaded CSV and nothing is excluded;
+  // otherwise the worker computes live.
   useEffect(() => {
-    const calculateSavings = async () => {
-      setIsLoading(true);
-      setError(null);
+    const worker = workerRef.current;
+    if (!worker) return;
 
-      // Defer heavy computation to next tick to allow loading UI to render
-      await new Promise(resolve => setTimeout(resolve, 100));
+    const runId = runIdRef.current + 1;
+    runIdRef.current = runId;
+    setIsLoading(true);
+    setError(null);
+    setProgress(null);
 
+    const startRun = async () => {
       try {
         await loadFareData();
-        const allRecords = getAllFareRecords();
-        if (!allRecords || allRecords.length === 0) {
-          throw new Error('No fare records available after loading.');
+        // The index was built without exclusions
+        const indexedSavings = exitStationIds ? null : await loadIndexedSavings(paymentMethod);
+        if (runIdRef.current !== runId) return;
+        if (indexedSavings) {
+          setSavings(indexedSavings);
+          setIsLoading(false);
+          return;
         }
-
-        const uniqueStationIds = new Set<string>();
-        allRecords.forEach(record => {
-          uniqueStationIds.add(record.SRC_STATION_ID);
-          uniqueStationIds.add(record.DEST_STATION_ID);
-        });
-        const stationIdList = Array.from(uniqueStationIds);
-
-        console.log(`Calculating savings for ${stationIdList.length} stations...`);
-
-        const calculatedSavings: SavingInfo[] = [];
-
-        for (let i = 0; i < stationIdList.length; i++) {
-          for (let j = 0; j < stationIdList.length; j++) {
-            if (i === j) continue;
-
-            const startStationId = stationIdList[i];
-            const destStationId = stationIdList[j];
-
-            const directFare = getFare(startStationId, destStationId, paymentMethod);
-
-            if (directFare === undefined || directFare === 0) {
-              continue;
-            }
-
-            let minIntermediateFare = Infinity;
-            let optimalIntermediateStationId: string | null = null;
-
-            for (let k = 0; k < stationIdList.length; k++) {
-              if (k === i || k === j) continue;
-
-              const intermediateStationId = stationIdList[k];
-
-              const fare1 = getFare(startStationId, intermediateStationId, paymentMethod);
-              const fare2 = getFare(intermediateStationId, destStationId, paymentMethod);
-
-              if (fare1 !== undefined && fare2 !== undefined) {
-                const totalIntermediateFare = fare1 + fare2;
-                if (totalIntermediateFare < minIntermediateFare) {
-                  minIntermediateFare = totalIntermediateFare;
-                  optimalIntermediateStationId = intermediateStationId;
-                }
-              }
-            }
-
-            if (optimalIntermediateStationId !== null && minIntermediateFare < directFare) {
-              const saving = directFare - minIntermediateFare;
-              if (saving > 0.01) {
-                const startName = getStationName(startStationId) || `ID: ${startStationId}`;
-                const destName = getStationName(destStationId) || `ID: ${destStationId}`;
-                const intermediateName = getStationName(optimalIntermediateStationId) || `ID: ${optimalIntermediateStationId}`;
-
-                calculatedSavings.push({
-                  startStationId,
-                  startStationName: startName,
-                  destStationId,
-                  destStationName: destName,
-                  intermediateStationId: optimalIntermediateStationId,
-                  intermediateStationName: intermediateName,
-                  directFare: directFare,
-                  intermediateFare: minIntermediateFare,
-                  saving: saving,
-                });
-              }
-            }
-          }
-
-          // Yield to UI thread periodically to keep interface responsive
-          if (i % 10 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 0));
-          }
-        }
-
-        setSavings(calculatedSavings);
-        console.log(`Found ${calculatedSavings.length} routes with savings.`);
-
       } catch (err) {
-        console.error('Error calculating savings:', err);
-        setError(err instanceof Error ? err.message : String(err));
-      } finally {
-        setIsLoading(false);
+        // Loading errors are reported by the worker run below
+        console.warn('Could not use the savings index:', err);
       }
+
+      const request: SavingsWorkerRequest = { type: 'start', runId, paymentMethod, exitStationIds, exclusions };
+      worker.postMessage(request);
     };
+    startRun();
 
-    calculateSavings();
-  }, [paymentMethod]);
+    return () => {
+      const cancel: SavingsWorkerRequest = { type: 'cancel', runId };
+      worker.postMessage(cancel);
+    };
+  }, [paymentMethod, exitStationIds, exclusions]);
 
   const handleRequestSort = (
     event: React.MouseEvent<unknown>,
     property: SortableColumn,
   ) => {
     const isAsc = orderBy === property && order === 'asc';
-    setOrder(isAsc ? 'desc' : 'asc');
-    setOrderBy(property);
+    onQueryChange({ ...query, order: isAsc ? 'desc' : 'asc', sort: property });
   };
 
   const handlePaymentMethodChange = (event: SelectChangeEvent<PaymentMethod>) => {
-    setPaymentMethod(event.target.value as PaymentMethod);
+    onQueryChange({ ...query, pay: event.target.value as PaymentMethod });
+  };
+
+  const handleFilterChange = (changes: Partial<SavingsFilter>) => {
+    setFilter(current => ({ ...current, ...changes }));
   };
 
   const sortedSavings = useMemo(() => {
     return stableSort(savings, getComparator(order, orderBy));
   }, [savings, order, orderBy]);
 
-  if (isLoading) {
-    return (
-      <Fade in timeout={500}>
-        <Card
-          elevation={8}
-          sx={{
-            p: 6,
-            borderRadius: 3,
-            background: 'white',
-            boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
-            textAlign: 'center',
-          }}
-        >
-          <CircularProgress size={60} sx={{ color: '#667eea' }} />
-          <Typography variant="h6" sx={{ mt: 3, fontWeight: 600, color: '#333' }}>
-            {t('savings.calculating', 'Calculating Savings...')}
-          </Typography>
-          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            {t('savings.analyzingRoutes', 'Analyzing all possible routes across the MTR network...')}
-          </Typography>
-        </Card>
-      </Fade>
+  const filteredSavings = useMemo(() => {
+    return filterSavings(sortedSavings, filter);
+  }, [sortedSavings, filter]);
+
+  // Export the rows as currently filtered and sorted
+  const handleExport = (format: ExportFormat) => {
+    setExportMenuAnchor(null);
+    const generatedAt = new Date().toISOString();
+    const paymentMethodLabel = t(
+      `paymentMethods.${paymentMethod}`,
+      paymentMethodOptions.find(option => option.value === paymentMethod)?.label ?? paymentMethod
     );
-  }
+    const text = exportSavings(filteredSavings, format, {
+      metadata: {
+        paymentMethod,
+        paymentMethodLabel,
+        datasetDate: getFareDataDate(),
+        datasetHash: getFareDataHash(),
+        generatedAt,
+        routeCount: filteredSavings.length,
+      },
+      labels: {
+        title: t('savingsPageTitle'),
+        paymentMethod: t('paymentMethodLabel'),
+        datasetDate: t('savings.export.datasetDate', 'Fare data updated'),
+        datasetHash: t('savings.export.datasetHash', 'Fare data fingerprint'),
+        generatedAt: t('savings.export.generatedAt', 'Generated'),
+        routeCount: t('savings.export.routeCount', 'Routes'),
+        unknown: t('savings.export.unknown', 'Unknown'),
+        from: t('savings.header.from', 'From'),
+        to: t('savings.header.to', 'To'),
+        via: t('savings.header.via', 'Via'),
+        directFare: t('savings.header.directFare', 'Direct Fare'),
+        splitFare: t('savings.header.splitFare', 'Split Fare'),
+        saving: t('savings.header.saving', 'Saving'),
+        savingPercent: t('savings.export.savingPercent', 'Saving (%)'),
+      },
+      stationName,
+    });
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+    // A byte order mark lets spreadsheet apps read the Chinese names in a CSV as UTF-8
+    downloadText(format === 'csv' ? `\uFEFF${text}` : text, `mtr-savings-${paymentMethod}-${generatedAt.slice(0, 10)}.${extension}`, mimeType);
+  };
 
-  if (error) {
-    return (
-      <Alert severity="error" sx={{ mt: 2 }}>
-        {t('savings.error', 'Error loading or calculating savings:')} {error}
-      </Alert>
-    );
-  }
+  const virtualRows = useVirtualRows(filteredSavings.length, ROW_HEIGHT, TABLE_HEIGHT);
+
+  // Back to the top of the table whenever the rows change
+  useEffect(() => {
+    if (tableRef.current) {
+      tableRef.current.scrollTop = 0;
+    }
+  }, [filteredSavings]);
 
   interface HeadCell {
     id: SortableColumn;
@@ -274,7 +319,10 @@ const SavingsPage: React.FC = () => {
     { id: 'saving', numeric: true, label: 'savings.header.saving' },
   ];
 
-  const currentLanguage = i18n.language.startsWith('zh') ? 'zh' : 'en';
+  const currentLanguage = useIsChinese() ? 'zh' : 'en';
+  const activeRuleNames = getFareRulesFor(paymentMethod)
+    .map(rule => (currentLanguage === 'zh' ? rule.name['zh-Hant'] : rule.name.en));
+  const progressPercent = progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
 
   return (
     <Fade in timeout={500}>
@@ -298,8 +346,24 @@ const SavingsPage: React.FC = () => {
                 {t('savings.filterTitle', 'Filter by Payment Method')}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                {sortedSavings.length} {t('savings.totalRoutes', 'routes with savings found')}
+                {isLoading
+                  ? t('savings.calculating', 'Calculating Savings...')
+                  : isSavingsFilterActive(filter)
+                    ? t('savings.filteredRoutes', {
+                      shown: filteredSavings.length,
+                      total: sortedSavings.length,
+                      defaultValue: '{{shown}} of {{total}} routes with savings shown',
+                    })
+                    : `${sortedSavings.length} ${t('savings.totalRoutes', 'routes with savings found')}`}
               </Typography>
+              {activeRuleNames.length > 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  {t('fareRules.active', 'Fare rules included in split fares:')} {activeRuleNames.join(', ')}
+                </Typography>
+              )}
+              <Box sx={{ mt: 1 }}>
+                <RouteExclusionsPicker value={exclusions} onChange={onExclusionsChange} />
+              </Box>
             </Box>
             <FormControl sx={{ minWidth: 250 }}>
               <InputLabel id="savings-payment-method-label">
@@ -318,11 +382,180 @@ const SavingsPage: React.FC = () => {
                 ))}
               </Select>
             </FormControl>
+            <Button
+              variant="outlined"
+              startIcon={<FileDownloadIcon />}
+              onClick={event => setExportMenuAnchor(event.currentTarget)}
+              disabled={isLoading || filteredSavings.length === 0}
+            >
+              {t('savings.export.button', 'Export')}
+            </Button>
+            <Menu
+              anchorEl={exportMenuAnchor}
+              open={exportMenuAnchor !== null}
+              onClose={() => setExportMenuAnchor(null)}
+            >
+              {EXPORT_FORMATS.map(format => (
+                <MenuItem key={format} onClick={() => handleExport(format)}>
+                  {t(`savings.export.formats.${format}`, format)}
+                </MenuItem>
+              ))}
+            </Menu>
           </Stack>
         </Card>
 
-        {/* Savings Table */}
-        {sortedSavings.length === 0 ? (
+        {/* Filters */}
+        <Card
+          elevation={8}
+          sx={{
+            p: 3,
+            mb: 3,
+            borderRadius: 3,
+            background: 'white',
+            boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                size="small"
+                placeholder={t('savings.filters.search', 'Search stations in English or Chinese...')}
+                value={filter.text}
+                onChange={event => handleFilterChange({ text: event.target.value })}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon />
+                    </InputAdornment>
+                  ),
+                }}
+              />
+            </Grid>
+            {([
+              { key: 'originLineId', label: t('savings.filters.originLine', 'Origin line') },
+              { key: 'destLineId', label: t('savings.filters.destLine', 'Destination line') },
+            ] as const).map(({ key, label }) => (
+              <Grid key={key} size={{ xs: 12, sm: 6, md: 3 }}>
+                <FormControl fullWidth size="small">
+                  <InputLabel id={`savings-${key}-label`}>{label}</InputLabel>
+                  <Select
+                    labelId={`savings-${key}-label`}
+                    value={filter[key] ?? ''}
+                    onChange={event => handleFilterChange({ [key]: event.target.value || null })}
+                    label={label}
+                  >
+                    <MenuItem value="">{t('savings.filters.anyLine', 'Any line')}</MenuItem>
+                    {getMtrLines().map(line => (
+                      <MenuItem key={line.id} value={line.id}>
+                        {currentLanguage === 'zh' ? line.nameZh : line.nameEn}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            ))}
+            <Grid size={{ xs: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={t('savings.filters.minSaving', 'Min. saving ($)')}
+                value={filter.minSaving ?? ''}
+                onChange={event => handleFilterChange({ minSaving: parseLimit(event.target.value) })}
+                inputProps={{ min: 0, step: 0.1 }}
+              />
+            </Grid>
+            <Grid size={{ xs: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label={t('savings.filters.minSavingPercent', 'Min. saving (%)')}
+                value={filter.minSavingPercent ?? ''}
+                onChange={event => handleFilterChange({ minSavingPercent: parseLimit(event.target.value) })}
+                inputProps={{ min: 0, max: 100, step: 1 }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <StationSelector
+                value={filter.stationId}
+                onChange={stationId => handleFilterChange({ stationId })}
+                label={t('savings.filters.station', 'Station')}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <FormControl fullWidth>
+                <InputLabel id="savings-station-role-label">{t('savings.filters.stationRole', 'Station used as')}</InputLabel>
+                <Select
+                  labelId="savings-station-role-label"
+                  value={filter.stationRole}
+                  onChange={event => handleFilterChange({ stationRole: event.target.value as StationRole })}
+                  label={t('savings.filters.stationRole', 'Station used as')}
+                >
+                  {stationRoles.map(role => (
+                    <MenuItem key={role} value={role}>
+                      {t(`savings.filters.roles.${role}`, role)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }} sx={{ display: 'flex', alignItems: 'center' }}>
+              <Button
+                fullWidth
+                onClick={() => setFilter(DEFAULT_SAVINGS_FILTER)}
+                disabled={!isSavingsFilterActive(filter)}
+              >
+                {t('savings.filters.clear', 'Clear filters')}
+              </Button>
+            </Grid>
+          </Grid>
+        </Card>
+
+        {/* Progress, Error or Savings Table */}
+        {isLoading ? (
+          <Card
+            elevation={8}
+            sx={{
+              p: 6,
+              borderRadius: 3,
+              background: 'white',
+              boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
+              textAlign: 'center',
+            }}
+          >
+            <Typography variant="h6" sx={{ fontWeight: 600, color: '#333' }}>
+              {t('savings.calculating', 'Calculating Savings...')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, mb: 3 }}>
+              {t('savings.analyzingRoutes', 'Analyzing all possible routes across the MTR network...')}
+            </Typography>
+            <LinearProgress
+              variant={progress ? 'determinate' : 'indeterminate'}
+              value={progressPercent}
+              sx={{
+                height: 10,
+                borderRadius: 5,
+                backgroundColor: 'rgba(102, 126, 234, 0.15)',
+                '& .MuiLinearProgress-bar': { backgroundColor: '#667eea' },
+              }}
+            />
+            {progress && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {t('savings.progress', {
+                  completed: progress.completed,
+                  total: progress.total,
+                  defaultValue: '{{completed}} / {{total}} stations analysed',
+                })}
+              </Typography>
+            )}
+          </Card>
+        ) : error ? (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {t('savings.error', 'Error loading or calculating savings:')} {error}
+          </Alert>
+        ) : sortedSavings.length === 0 ? (
           <Card
             elevation={8}
             sx={{
@@ -340,15 +573,18 @@ const SavingsPage: React.FC = () => {
           <TableContainer
             component={Paper}
             elevation={8}
+            ref={tableRef}
+            onScroll={virtualRows.onScroll}
             sx={{
               borderRadius: 3,
               overflow: 'auto',
               boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
               maxWidth: '100%',
+              maxHeight: TABLE_HEIGHT,
             }}
           >
             <Table sx={{ minWidth: 750 }} aria-label="savings table" size="small">
-              <TableHead>
+              <TableHead sx={{ position: 'sticky', top: 0, zIndex: 1 }}>
                 <TableRow
                   sx={{
                     background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
@@ -397,17 +633,33 @@ const SavingsPage: React.FC = () => {
                 </TableRow>
               </TableHead>
               <TableBody>
-                {sortedSavings.map((row, index) => {
-                  const startLines = getLinesForStation(row.startStationName);
-                  const destLines = getLinesForStation(row.destStationName);
-                  const intermediateLines = getLinesForStation(row.intermediateStationName);
+                {filteredSavings.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={headCells.length} align="center" sx={{ py: 4 }}>
+                      <Typography color="text.secondary">
+                        {t('savings.filters.noMatches', 'No routes match the filters.')}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {virtualRows.paddingTop > 0 && (
+                  <TableRow sx={{ height: virtualRows.paddingTop }}>
+                    <TableCell colSpan={headCells.length} sx={{ p: 0, border: 0 }} />
+                  </TableRow>
+                )}
+                {filteredSavings.slice(virtualRows.start, virtualRows.end).map((row, offset) => {
+                  const index = virtualRows.start + offset;
+                  const startLines = getLinesForStation(row.startStationId);
+                  const destLines = getLinesForStation(row.destStationId);
+                  const intermediateLines = getLinesForStation(row.intermediateStationId);
 
                   return (
                     <TableRow
                       hover
                       key={`${row.startStationId}-${row.destStationId}-${row.intermediateStationId}-${index}`}
                       sx={{
-                        '&:nth-of-type(odd)': { backgroundColor: 'rgba(102, 126, 234, 0.02)' },
+                        height: ROW_HEIGHT,
+                        backgroundColor: index % 2 === 0 ? 'rgba(102, 126, 234, 0.02)' : undefined,
                         '&:hover': {
                           backgroundColor: 'rgba(102, 126, 234, 0.08)',
                           transition: 'background-color 0.2s',
@@ -417,7 +669,7 @@ const SavingsPage: React.FC = () => {
                       <TableCell component="th" scope="row">
                         <Box>
                           <Typography variant="body2" fontWeight={500}>
-                            {t(`stations.${row.startStationName}`, row.startStationName)}
+                            {stationName(row.startStationId)}
                           </Typography>
                           {startLines.length > 0 && (
                             <Stack direction="row" spacing={0.5} sx={{ mt: 0.5 }}>
@@ -442,7 +694,7 @@ const SavingsPage: React.FC = () => {
                       <TableCell>
                         <Box>
                           <Typography variant="body2" fontWeight={500}>
-                            {t(`stations.${row.destStationName}`, row.destStationName)}
+                            {stationName(row.destStationId)}
                           </Typography>
                           {destLines.length > 0 && (
                             <Stack direction="row" spacing={0.5} sx={{ mt: 0.5 }}>
@@ -467,7 +719,7 @@ const SavingsPage: React.FC = () => {
                       <TableCell>
                         <Box>
                           <Typography variant="body2" fontWeight={600} color="primary">
-                            {t(`stations.${row.intermediateStationName}`, row.intermediateStationName)}
+                            {stationName(row.intermediateStationId)}
                           </Typography>
                           {intermediateLines.length > 0 && (
                             <Stack direction="row" spacing={0.5} sx={{ mt: 0.5 }}>
@@ -498,6 +750,9 @@ const SavingsPage: React.FC = () => {
                         <Typography variant="body2" fontWeight={500}>
                           ${row.intermediateFare.toFixed(2)}
                         </Typography>
+                        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                          <AppliedFareRules rules={row.appliedRules} />
+                        </Box>
                       </TableCell>
                       <TableCell align="right">
                         <Chip
@@ -511,10 +766,18 @@ const SavingsPage: React.FC = () => {
                             fontSize: '0.85rem',
                           }}
                         />
+                        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                          {savingPercent(row).toFixed(0)}%
+                        </Typography>
                       </TableCell>
                     </TableRow>
                   );
                 })}
+                {virtualRows.paddingBottom > 0 && (
+                  <TableRow sx={{ height: virtualRows.paddingBottom }}>
+                    <TableCell colSpan={headCells.length} sx={{ p: 0, border: 0 }} />
+                  </TableRow>
+                )}
               </TableBody>
             </Table>
           </TableContainer>
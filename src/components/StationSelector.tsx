@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Box,
@@ -15,17 +15,28 @@ import {
   IconButton,
   Typography,
   Paper,
+  Tooltip,
+  CircularProgress,
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
 import TrainIcon from '@mui/icons-material/Train';
-import { MTR_LINES, getLinesForStation } from '../data/mtrLines';
+import MyLocationIcon from '@mui/icons-material/MyLocation';
+import { getMtrLines, MTRLine, getLinesForStation } from '../data/mtrLines';
+import { getLightRailDataset, LIGHT_RAIL_LINE } from '../data/lightRail';
+import { getStationById } from '../data/stationRegistry';
+import { NearbyStation } from '../data/nearestStation';
+import { useStationName } from '../hooks/useStationName';
+import { useNearestStation } from '../hooks/useNearestStation';
+import { useIsChinese } from '../hooks/useLanguage';
+import LightRailStopList from './LightRailStopList';
 
 interface StationSelectorProps {
-  value: string | null;
-  onChange: (station: string | null) => void;
+  value: string | null; // Station ID
+  onChange: (stationId: string | null) => void;
   label: string;
-  excludeStation?: string | null; // Optional: exclude a station from selection
+  excludeStation?: string | null; // Optional: exclude a station ID from selection
+  allowLocate?: boolean; // Optional: offer to pick the station nearest the device's location
 }
 
 const StationSelector: React.FC<StationSelectorProps> = ({
@@ -33,53 +44,63 @@ const StationSelector: React.FC<StationSelectorProps> = ({
   onChange,
   label,
   excludeStation,
+  allowLocate = false,
 }) => {
-  const { t, i18n } = useTranslation();
+  const { t } = useTranslation();
+  const mtrLines = getMtrLines();
   const [open, setOpen] = useState(false);
-  const [selectedLineId, setSelectedLineId] = useState<string>(MTR_LINES[0].id);
+  const [selectedLineId, setSelectedLineId] = useState<string>(mtrLines[0].id);
   const [searchQuery, setSearchQuery] = useState('');
+  const [located, setLocated] = useState<NearbyStation | null>(null); // Last station found from the device location
+  const { locate, locating, error: locateError } = useNearestStation();
 
-  const currentLanguage = i18n.language.startsWith('zh') ? 'zh' : 'en';
+  const currentLanguage = useIsChinese() ? 'zh' : 'en';
 
   // Get translated station name
-  const getStationName = useCallback((station: string) => {
-    return t(`stations.${station}`, station);
-  }, [t]);
+  const getStationName = useStationName();
 
   // Get display value for the text field
   const displayValue = value ? getStationName(value) : '';
 
+  // Light Rail stops, if its data was loaded
+  const lightRail = getLightRailDataset();
+
   // Filter stations based on search query
   const filteredStations = useMemo(() => {
     if (!searchQuery.trim()) return null;
 
     const query = searchQuery.toLowerCase();
-    const results: { station: string; lines: typeof MTR_LINES }[] = [];
-
-    MTR_LINES.forEach(line => {
-      line.stations.forEach(station => {
-        const stationName = getStationName(station).toLowerCase();
-        const englishName = station.toLowerCase();
-
-        if (
-          stationName.includes(query) ||
-          englishName.includes(query)
-        ) {
-          // Check if station is already in results
-          const existing = results.find(r => r.station === station);
-          if (existing) {
-            if (!existing.lines.find(l => l.id === line.id)) {
-              existing.lines.push(line);
-            }
-          } else {
-            results.push({ station, lines: [line] });
+    const results: { station: string; lines: Omit<MTRLine, 'stations'>[] }[] = [];
+
+    const addMatch = (station: string, line: Omit<MTRLine, 'stations'>) => {
+      const stationName = getStationName(station).toLowerCase();
+      const registryStation = getStationById(station);
+
+      if (
+        stationName.includes(query) ||
+        registryStation?.nameEn.toLowerCase().includes(query) ||
+        registryStation?.nameZh.includes(query) ||
+        registryStation?.code?.toLowerCase() === query
+      ) {
+        // Check if station is already in results
+        const existing = results.find(r => r.station === station);
+        if (existing) {
+          if (!existing.lines.find(l => l.id === line.id)) {
+            existing.lines.push(line);
           }
+        } else {
+          results.push({ station, lines: [line] });
         }
-      });
+      }
+    };
+
+    mtrLines.forEach(line => {
+      line.stations.forEach(station => addMatch(station, line));
     });
+    lightRail.stationIds.forEach(station => addMatch(station, LIGHT_RAIL_LINE));
 
     return results;
-  }, [searchQuery, getStationName]);
+  }, [searchQuery, getStationName, mtrLines, lightRail]);
 
   const handleOpen = () => {
     setOpen(true);
@@ -100,7 +121,27 @@ const StationSelector: React.FC<StationSelectorProps> = ({
     onChange(null);
   };
 
-  const selectedLine = MTR_LINES.find(line => line.id === selectedLineId) || MTR_LINES[0];
+  const handleLocate = (event: React.MouseEvent) => {
+    event.stopPropagation(); // Don't open the station dialog
+    locate(station => {
+      onChange(station.stationId);
+      setLocated(station);
+    });
+  };
+
+  const helperText = locateError
+    ? t(`nearestStation.errors.${locateError}`, 'Could not find your location')
+    : located && located.stationId === value
+      ? t('nearestStation.found', {
+        distance: Math.round(located.distanceMetres),
+        defaultValue: 'Nearest station to you, about {{distance}} m away',
+      })
+      : undefined;
+
+  const isLightRailTab = selectedLineId === LIGHT_RAIL_LINE.id && lightRail.routes.length > 0;
+  const selectedLine = mtrLines.find(line => line.id === selectedLineId) || mtrLines[0];
+  // Header colour and name of the open tab
+  const selectedTab = isLightRailTab ? LIGHT_RAIL_LINE : selectedLine;
 
   return (
     <>
@@ -109,6 +150,8 @@ const StationSelector: React.FC<StationSelectorProps> = ({
         label={label}
         value={displayValue}
         onClick={handleOpen}
+        helperText={helperText}
+        error={locateError !== null}
         InputProps={{
           readOnly: true,
           startAdornment: (
@@ -116,11 +159,28 @@ const StationSelector: React.FC<StationSelectorProps> = ({
               <TrainIcon color="action" />
             </InputAdornment>
           ),
-          endAdornment: value ? (
+          endAdornment: value || allowLocate ? (
             <InputAdornment position="end">
-              <IconButton size="small" onClick={handleClear} edge="end">
-                <ClearIcon />
-              </IconButton>
+              {allowLocate && (
+                <Tooltip title={t('nearestStation.useMyLocation', 'Use my location')}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={handleLocate}
+                      disabled={locating}
+                      aria-label={t('nearestStation.useMyLocation', 'Use my location')}
+                      edge={value ? false : 'end'}
+                    >
+                      {locating ? <CircularProgress size={20} /> : <MyLocationIcon />}
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              )}
+              {value && (
+                <IconButton size="small" onClick={handleClear} edge="end">
+                  <ClearIcon />
+                </IconButton>
+              )}
             </InputAdornment>
           ) : null,
         }}
@@ -246,7 +306,7 @@ const StationSelector: React.FC<StationSelectorProps> = ({
                   },
                 }}
               >
-                {MTR_LINES.map(line => (
+                {mtrLines.map(line => (
                   <Tab
                     key={line.id}
                     value={line.id}
@@ -269,6 +329,28 @@ const StationSelector: React.FC<StationSelectorProps> = ({
                     }
                   />
                 ))}
+                {lightRail.routes.length > 0 && (
+                  <Tab
+                    value={LIGHT_RAIL_LINE.id}
+                    label={
+                      <Box sx={{ textAlign: 'center' }}>
+                        <Box
+                          sx={{
+                            width: 40,
+                            height: 4,
+                            backgroundColor: LIGHT_RAIL_LINE.color,
+                            borderRadius: 2,
+                            mb: 0.5,
+                            mx: 'auto',
+                          }}
+                        />
+                        <Typography variant="body2" fontSize="0.75rem">
+                          {currentLanguage === 'zh' ? LIGHT_RAIL_LINE.nameZh : LIGHT_RAIL_LINE.nameEn}
+                        </Typography>
+                      </Box>
+                    }
+                  />
+                )}
               </Tabs>
 
               {/* Station List */}
@@ -279,7 +361,7 @@ const StationSelector: React.FC<StationSelectorProps> = ({
                     alignItems: 'center',
                     mb: 2,
                     pb: 1,
-                    borderBottom: `3px solid ${selectedLine.color}`,
+                    borderBottom: `3px solid ${selectedTab.color}`,
                   }}
                 >
                   <Box
@@ -287,17 +369,23 @@ const StationSelector: React.FC<StationSelectorProps> = ({
                       width: 12,
                       height: 12,
                       borderRadius: '50%',
-                      backgroundColor: selectedLine.color,
+                      backgroundColor: selectedTab.color,
                       mr: 1,
                     }}
                   />
                   <Typography variant="h6" fontWeight={600}>
-                    {currentLanguage === 'zh' ? selectedLine.nameZh : selectedLine.nameEn}
+                    {currentLanguage === 'zh' ? selectedTab.nameZh : selectedTab.nameEn}
                   </Typography>
                 </Box>
 
                 <Stack spacing={1}>
-                  {selectedLine.branches ? (
+                  {isLightRailTab ? (
+                    <LightRailStopList
+                      routes={lightRail.routes}
+                      excludeStation={excludeStation}
+                      onSelect={handleStationSelect}
+                    />
+                  ) : selectedLine.branches ? (
                     // Line has branches - show branches first, then trunk
                     <>
                       {/* Branch divider */}
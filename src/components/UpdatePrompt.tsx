@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Snackbar, Button, Alert } from '@mui/material';
+import { register, applyUpdate } from '../serviceWorkerRegistration';
+
+// Registers the service worker and offers a reload when a new app version
+// or newer fare data is available
+const UpdatePrompt: React.FC = () => {
+  const { t } = useTranslation();
+  const [waitingRegistration, setWaitingRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [dataUpdated, setDataUpdated] = useState<boolean>(false);
+  const [dismissed, setDismissed] = useState<boolean>(false);
+
+  useEffect(() => {
+    register({
+      onUpdate: registration => {
+        setWaitingRegistration(registration);
+        setDismissed(false);
+      },
+      onDataUpdate: () => {
+        setDataUpdated(true);
+        setDismissed(false);
+      },
+    });
+  }, []);
+
+  const handleReload = () => {
+    if (waitingRegistration) {
+      applyUpdate(waitingRegistration);
+    } else {
+      window.location.reload();
+    }
+  };
+
+  return (
+    <Snackbar
+      open={(waitingRegistration !== null || dataUpdated) && !dismissed}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+    >
+      <Alert
+        severity="info"
+        onClose={() => setDismissed(true)}
+        action={
+          <Button color="inherit" size="small" onClick={handleReload}>
+            {t('updatePrompt.reload', 'Reload')}
+          </Button>
+        }
+      >
+        {waitingRegistration
+          ? t('updatePrompt.appUpdate', 'A new version of the app is available.')
+          : t('updatePrompt.dataUpdate', 'Updated fare data is available.')}
+      </Alert>
+    </Snackbar>
+  );
+};
+
+export default UpdatePrompt;
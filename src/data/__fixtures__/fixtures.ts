@@ -0,0 +1,47 @@
+// Shared test helpers for the hand-made CSVs in this folder
+// fares_four_stations.csv has four stations: Alpha (1), Bravo (2), Charlie (3), Delta (4);
+// its fares are listed in optimizer.test.ts. The Light Rail CSVs are described in lightRail.test.ts.
+// lines_and_stations.csv puts the four stations on three lines:
+//   Island Line, 2 min a stop:    Alpha - Bravo
+//   Tuen Ma Line, 2.5 min a stop: Alpha - Bravo - Charlie
+//   Kwun Tong Line, 2 min a stop: Charlie - Delta
+// lines_walking_link.csv drops the Island Line and codes Alpha and Delta as Central (CEN)
+// and Hong Kong (HOK), which have a walking link.
+// lines_with_branches.csv runs the East Rail Line from Alpha or Bravo through Charlie to
+// Delta, as a trunk with two branches, and the Tsuen Wan Line between Alpha and Bravo.
+// lines_airport_express.csv has Alpha on the Airport Express under a second ID (91),
+// Echo (5) with no fares and no Delta, like the Airport Express platforms and Racecourse.
+// lines_airport_tung_chung.csv puts Alpha only on the Airport Express, Bravo on it and the
+// Tung Chung Line, Charlie only on the Tung Chung Line and leaves Delta without line data.
+
+import { DataSource } from '../dataSource';
+import { FareDataset, loadFareDataset } from '../fareService';
+import { fileSystemDataSource } from '../fileSystemDataSource';
+import { loadStationDataset, StationDataset } from '../mtrLines';
+import { RankedRoute } from '../optimizer';
+
+// The files in this folder, by name
+export const fixtures: DataSource = fileSystemDataSource(__dirname);
+
+// Function to load a fixture fare table, the four-station one by default
+export function loadFixtureFares(fileName = 'fares_four_stations.csv'): Promise<FareDataset> {
+  return loadFareDataset(fixtures, fileName);
+}
+
+// Function to load fixture lines joined against a fixture fare table, the three-line ones by default
+export function loadFixtureStations(fares: FareDataset, fileName = 'lines_and_stations.csv'): Promise<StationDataset> {
+  return loadStationDataset(fixtures, fares, fileName);
+}
+
+// Function to change the adult Octopus fare (fifth column) of one OD pair in a fare CSV
+export const withAdultFare = (csv: string, srcStationId: string, destStationId: string, fare: string) =>
+  csv.split('\n').map(line => {
+    const columns = line.split(',');
+    if (columns[1] !== srcStationId || columns[3] !== destStationId) return line;
+    columns[4] = fare;
+    return columns.join(',');
+  }).join('\n');
+
+// Function to reduce ranked routes to the parts most tests compare
+export const summarize = (routes: RankedRoute[]) =>
+  routes.map(route => ({ stationIds: route.stationIds, totalFare: route.totalFare }));
@@ -0,0 +1,84 @@
+import { loadFixtureFares } from './__fixtures__/fixtures';
+import { CommuteRouteOptions, CommuteTrip, planCommute, planCommuteTrip, projectCost } from './commutePlanner';
+import { FareDataset, fareLookupFor, getStationIdList } from './fareService';
+
+// Fares from fares_four_stations.csv (see optimizer.test.ts): Alpha to Delta is $20 for
+// an adult, or $14 exiting at Charlie. fares_no_direct.csv has no Alpha-Delta fare.
+let fourStations: FareDataset;
+let noDirect: FareDataset;
+
+beforeAll(async () => {
+  fourStations = await loadFixtureFares();
+  noDirect = await loadFixtureFares('fares_no_direct.csv');
+});
+
+const optionsFor = (dataset: FareDataset): CommuteRouteOptions => ({
+  lookup: fareLookupFor(dataset),
+  stationIds: getStationIdList(dataset),
+});
+
+// Ten trips a week over five days, in a 28-day month
+const commute = (overrides: Partial<CommuteTrip> = {}): CommuteTrip => ({
+  id: '1',
+  startStationId: '1',
+  destStationId: '4',
+  paymentMethod: 'OCT_ADT_FARE',
+  tripsPerWeek: 10,
+  daysPerWeek: 5,
+  daysPerMonth: 28,
+  ...overrides,
+});
+
+describe('projectCost', () => {
+  test('spreads the weekly cost over the month, and twelve months over the year', () => {
+    expect(projectCost(2, commute())).toEqual({ weekly: 20, monthly: 80, yearly: 960 });
+    expect(projectCost(2, commute({ daysPerMonth: 35 }))).toEqual({ weekly: 20, monthly: 100, yearly: 1200 });
+  });
+});
+
+describe('planCommuteTrip', () => {
+  test('compares the direct fare with the cheapest split', () => {
+    const plan = planCommuteTrip(commute(), 1, optionsFor(fourStations));
+
+    expect(plan.directFare).toBe(20);
+    expect(plan.bestRoute?.stationIds).toEqual(['1', '3', '4']);
+    expect(plan.direct).toEqual({ weekly: 200, monthly: 800, yearly: 9600 });
+    expect(plan.optimized).toEqual({ weekly: 140, monthly: 560, yearly: 6720 });
+    expect(plan.saving).toEqual({ weekly: 60, monthly: 240, yearly: 2880 });
+  });
+
+  test('keeps the direct route when no split is cheaper', () => {
+    const plan = planCommuteTrip(commute({ paymentMethod: 'OCT_JOYYOU_SIXTY_FARE' }), 2, optionsFor(fourStations));
+
+    expect(plan.bestRoute?.isDirect).toBe(true);
+    expect(plan.saving).toEqual({ weekly: 0, monthly: 0, yearly: 0 });
+  });
+
+  test('leaves a trip without a direct fare unpriced', () => {
+    const plan = planCommuteTrip(commute(), 1, optionsFor(noDirect));
+
+    expect(plan.directFare).toBeNull();
+    expect(plan.bestRoute?.isDirect).toBe(false);
+    expect(plan.direct).toEqual({ weekly: 0, monthly: 0, yearly: 0 });
+  });
+
+  test('follows the exits it is given', () => {
+    const plan = planCommuteTrip(commute(), 1, { ...optionsFor(fourStations), exitStationIds: new Set(['2']) });
+    expect(plan.bestRoute?.stationIds).toEqual(['1', '2', '4']);
+  });
+});
+
+describe('planCommute', () => {
+  test('totals the priced trips only', () => {
+    const trips = [commute(), commute({ id: '2', startStationId: '2', destStationId: '3', tripsPerWeek: 5 })];
+    const plan = planCommute(trips, 1, optionsFor(fourStations));
+
+    expect(plan.trips.map(trip => trip.directFare)).toEqual([20, 1]);
+    expect(plan.direct.weekly).toBe(205);
+    expect(plan.saving.weekly).toBe(60);
+
+    const unpriced = planCommute([commute()], 1, optionsFor(noDirect));
+    expect(unpriced.trips).toHaveLength(1);
+    expect(unpriced.direct).toEqual({ weekly: 0, monthly: 0, yearly: 0 });
+  });
+});
@@ -0,0 +1,112 @@
+// Commute cost planner
+// Projects the cost of recurring trips over a week, month and year, comparing
+// the direct fare with the cheapest route from the fare optimizer.
+
+import { PaymentMethod } from './fareService';
+import { OptimizeOptions, optimizeRoute, RankedRoute } from './optimizer';
+
+export interface CommuteTrip {
+  id: string;
+  startStationId: string;
+  destStationId: string;
+  paymentMethod: PaymentMethod;
+  tripsPerWeek: number;
+  daysPerWeek: number; // Days a week the trips are made on, e.g. 5 for weekdays only
+  daysPerMonth: number; // Length of the month the weekly trips are spread over
+}
+
+export interface CommuteCost {
+  weekly: number;
+  monthly: number;
+  yearly: number;
+}
+
+export interface CommuteTripPlan {
+  trip: CommuteTrip;
+  directFare: number | null; // Null when the pair has no direct fare
+  bestRoute: RankedRoute | null; // Cheapest route found, possibly the direct one
+  direct: CommuteCost;
+  optimized: CommuteCost;
+  saving: CommuteCost;
+}
+
+// Where trips may split and how they are priced, as for the calculator
+export type CommuteRouteOptions = Pick<OptimizeOptions, 'exitStationIds' | 'isLegAllowed' | 'stationIds' | 'lookup'>;
+
+export interface CommutePlan {
+  trips: CommuteTripPlan[];
+  direct: CommuteCost;
+  optimized: CommuteCost;
+  saving: CommuteCost;
+}
+
+export const DAYS_PER_WEEK = 7;
+const MONTHS_PER_YEAR = 12;
+
+const ZERO_COST: CommuteCost = { weekly: 0, monthly: 0, yearly: 0 };
+
+// Function to project a single fare over a week, month and year of a trip's schedule
+export function projectCost(fare: number, trip: CommuteTrip): CommuteCost {
+  const weekly = fare * trip.tripsPerWeek;
+  const monthly = weekly * trip.daysPerMonth / DAYS_PER_WEEK;
+  return { weekly, monthly, yearly: monthly * MONTHS_PER_YEAR };
+}
+
+const addCosts = (a: CommuteCost, b: CommuteCost): CommuteCost => ({
+  weekly: a.weekly + b.weekly,
+  monthly: a.monthly + b.monthly,
+  yearly: a.yearly + b.yearly,
+});
+
+const subtractCosts = (a: CommuteCost, b: CommuteCost): CommuteCost => ({
+  weekly: a.weekly - b.weekly,
+  monthly: a.monthly - b.monthly,
+  yearly: a.yearly - b.yearly,
+});
+
+// Function to plan one recurring trip with the cheapest route within the split limit
+export function planCommuteTrip(
+  trip: CommuteTrip,
+  maxSplits: number,
+  options: CommuteRouteOptions = {}
+): CommuteTripPlan {
+  const routes = optimizeRoute(trip.startStationId, trip.destStationId, trip.paymentMethod, {
+    ...options,
+    maxSplits,
+    maxResults: 2,
+  });
+  const directRoute = routes.find(route => route.isDirect);
+  // A split is only ranked first when it beats the direct fare, so the direct route wins ties
+  const bestRoute = routes.find(route => route.isCheapest) ?? null;
+
+  if (!directRoute || !bestRoute) {
+    return { trip, directFare: null, bestRoute, direct: ZERO_COST, optimized: ZERO_COST, saving: ZERO_COST };
+  }
+
+  const direct = projectCost(directRoute.totalFare, trip);
+  const optimized = projectCost(bestRoute.totalFare, trip);
+  return {
+    trip,
+    directFare: directRoute.totalFare,
+    bestRoute,
+    direct,
+    optimized,
+    saving: subtractCosts(direct, optimized),
+  };
+}
+
+// Function to plan every recurring trip and total the projections.
+// Trips without a direct fare are listed but left out of the totals.
+export function planCommute(trips: CommuteTrip[], maxSplits: number, options: CommuteRouteOptions = {}): CommutePlan {
+  const tripPlans = trips.map(trip => planCommuteTrip(trip, maxSplits, options));
+  const priced = tripPlans.filter(plan => plan.directFare !== null);
+  const direct = priced.reduce((total, plan) => addCosts(total, plan.direct), ZERO_COST);
+  const optimized = priced.reduce((total, plan) => addCosts(total, plan.optimized), ZERO_COST);
+
+  return {
+    trips: tripPlans,
+    direct,
+    optimized,
+    saving: subtractCosts(direct, optimized),
+  };
+}
@@ -0,0 +1,68 @@
+import * as path from 'path';
+import { fetchDataSource, indexedDbCacheDataSource, memoryDataSource, STATION_CSV_FILE } from './dataSource';
+import { fileSystemDataSource } from './fileSystemDataSource';
+
+describe('memoryDataSource', () => {
+  test('returns the files it was given', async () => {
+    const source = memoryDataSource({ 'a.csv': 'text' }, '2026-01-01T00:00:00.000Z');
+
+    await expect(source.read('a.csv')).resolves.toEqual({ text: 'text', lastModified: '2026-01-01T00:00:00.000Z' });
+    await expect(source.read('b.csv')).rejects.toThrow('No data for b.csv');
+  });
+});
+
+describe('fetchDataSource', () => {
+  const realFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  // Stand-in for fetch answering every request with one status and Last-Modified header
+  const mockFetch = (status: number, lastModified: string | null) => {
+    const fetchMock = jest.fn(async () => ({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => (name === 'Last-Modified' ? lastModified : null) },
+      text: async () => 'text',
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  };
+
+  test('fetches relative to the base URL and keeps the Last-Modified date', async () => {
+    const fetchMock = mockFetch(200, 'Thu, 01 Jan 2026 08:00:00 GMT');
+
+    await expect(fetchDataSource('/data').read('a.csv')).resolves.toEqual({
+      text: 'text',
+      lastModified: '2026-01-01T08:00:00.000Z',
+    });
+    expect(fetchMock).toHaveBeenCalledWith('/data/a.csv');
+  });
+
+  test('has no date without a Last-Modified header', async () => {
+    mockFetch(200, null);
+    await expect(fetchDataSource().read('a.csv')).resolves.toEqual({ text: 'text', lastModified: null });
+  });
+
+  test('fails on an HTTP error', async () => {
+    mockFetch(404, null);
+    await expect(fetchDataSource().read('a.csv')).rejects.toThrow('HTTP error! status: 404');
+  });
+});
+
+describe('indexedDbCacheDataSource', () => {
+  test('is the wrapped source where there is no IndexedDB', () => {
+    const source = memoryDataSource({});
+    expect(typeof indexedDB).toBe('undefined');
+    expect(indexedDbCacheDataSource(source)).toBe(source);
+  });
+});
+
+describe('fileSystemDataSource', () => {
+  test('reads a file without its byte-order mark, dated by its modification time', async () => {
+    const file = await fileSystemDataSource(path.join(__dirname, '..', '..', 'public')).read(STATION_CSV_FILE);
+
+    expect(file.text.startsWith('"Line Code"')).toBe(true);
+    expect(file.lastModified).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+});
@@ -0,0 +1,129 @@
+// Data sources for the CSV and JSON files the app reads
+// A source reads a named file (e.g. "mtr_lines_fares.csv") as text, so the same
+// loaders run in the browser, a worker, Node scripts and tests. The browser build
+// fetches from the public folder, keeping a copy in IndexedDB; Node code can read
+// from disk with fileSystemDataSource, and tests can pass the files in with memoryDataSource.
+
+export const FARE_CSV_FILE = 'mtr_lines_fares.csv';
+export const STATION_CSV_FILE = 'mtr_lines_and_stations.csv';
+// Snapshot of the fare CSV before the latest data refresh, bundled with the build
+export const PREVIOUS_FARE_CSV_FILE = 'mtr_lines_fares.previous.csv';
+// Light Rail stops by route, and fares between stops; optional, the app works without them
+export const LIGHT_RAIL_STOP_CSV_FILE = 'light_rail_routes_and_stops.csv';
+export const LIGHT_RAIL_FARE_CSV_FILE = 'light_rail_fares.csv';
+
+export interface DataFile {
+  text: string;
+  lastModified: string | null; // ISO 8601, if the source knows it
+}
+
+export interface DataSource {
+  read: (fileName: string) => Promise<DataFile>;
+}
+
+// Function to create a source that fetches files relative to a base URL (the public folder by default)
+export function fetchDataSource(baseUrl = ''): DataSource {
+  return {
+    read: async fileName => {
+      const response = await fetch(`${baseUrl}/${fileName}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const lastModified = new Date(response.headers.get('Last-Modified') || '');
+      return {
+        text: await response.text(),
+        lastModified: isNaN(lastModified.getTime()) ? null : lastModified.toISOString(),
+      };
+    },
+  };
+}
+
+// Function to create a source over file contents held in memory, keyed by file name
+export function memoryDataSource(files: Record<string, string>, lastModified: string | null = null): DataSource {
+  return {
+    read: async fileName => {
+      if (!(fileName in files)) {
+        throw new Error(`No data for ${fileName}`);
+      }
+      return { text: files[fileName], lastModified };
+    },
+  };
+}
+
+const CACHE_STORE = 'files';
+
+// Function to turn an IndexedDB request into a promise
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openCache(databaseName: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(databaseName, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(CACHE_STORE);
+  return requestResult(request);
+}
+
+async function readCachedFile(databaseName: string, fileName: string): Promise<DataFile | undefined> {
+  const database = await openCache(databaseName);
+  try {
+    return await requestResult<DataFile | undefined>(
+      database.transaction(CACHE_STORE, 'readonly').objectStore(CACHE_STORE).get(fileName)
+    );
+  } finally {
+    database.close();
+  }
+}
+
+async function writeCachedFile(databaseName: string, fileName: string, file: DataFile): Promise<void> {
+  const database = await openCache(databaseName);
+  try {
+    await requestResult(database.transaction(CACHE_STORE, 'readwrite').objectStore(CACHE_STORE).put(file, fileName));
+  } finally {
+    database.close();
+  }
+}
+
+// Function to wrap a source with an IndexedDB copy of every file it returns.
+// The wrapped source is always tried first; the cached copy is only used when it
+// fails (e.g. offline outside the service worker's reach). Where IndexedDB is
+// unavailable (Node, some private modes) this is the wrapped source unchanged.
+export function indexedDbCacheDataSource(source: DataSource, databaseName = 'mtr-fare-data'): DataSource {
+  if (typeof indexedDB === 'undefined') {
+    return source;
+  }
+  return {
+    read: async fileName => {
+      try {
+        const file = await source.read(fileName);
+        writeCachedFile(databaseName, fileName, file).catch(error => {
+          console.warn(`Could not cache ${fileName}:`, error);
+        });
+        return file;
+      } catch (error) {
+        const cached = await readCachedFile(databaseName, fileName).catch(() => undefined);
+        if (cached) {
+          console.warn(`Using cached ${fileName}:`, error);
+          return cached;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+// The public folder, with the IndexedDB copy as a fallback where the browser has one
+let defaultDataSource: DataSource = indexedDbCacheDataSource(fetchDataSource());
+
+// Function to get the source the default datasets are loaded from
+export function getDefaultDataSource(): DataSource {
+  return defaultDataSource;
+}
+
+// Function to change where the default datasets are loaded from (e.g. the filesystem in Node scripts).
+// Call it before anything is loaded; datasets already loaded are kept.
+export function setDefaultDataSource(source: DataSource): void {
+  defaultDataSource = source;
+}
@@ -0,0 +1,68 @@
+import { fixtures, withAdultFare } from './__fixtures__/fixtures';
+import { hasBlockingIssues, hasIssues, validateStationData } from './dataValidation';
+import { parseFareDataset } from './fareService';
+
+// fares_four_stations.csv is complete and symmetric; each case breaks a copy of it
+let fixtureCsv: string;
+
+beforeAll(async () => {
+  fixtureCsv = (await fixtures.read('fares_four_stations.csv')).text;
+});
+
+const reportOf = (csv: string) => parseFareDataset(csv).report!;
+
+describe('validateFareData', () => {
+  test('finds nothing wrong with a complete, symmetric table', () => {
+    const report = reportOf(fixtureCsv);
+
+    expect(report.rowCount).toBe(16);
+    expect(hasIssues(report)).toBe(false);
+  });
+
+  test('lists station pairs without a row', () => {
+    const csv = fixtureCsv.split('\n').filter(line => !line.startsWith('Alpha,1,Delta,4,')).join('\n');
+
+    expect(reportOf(csv).missingPairs).toEqual([{ srcStationId: '1', destStationId: '4' }]);
+  });
+
+  test('lists fares that differ by direction', () => {
+    const report = reportOf(withAdultFare(fixtureCsv, '4', '1', '13.00'));
+
+    expect(report.asymmetricFares).toEqual([
+      { srcStationId: '1', destStationId: '4', paymentMethod: 'OCT_ADT_FARE', fare: 20, reverseFare: 13 },
+    ]);
+    expect(hasBlockingIssues(report)).toBe(false);
+  });
+
+  test('lists fares that are not numbers, without treating them as asymmetric', () => {
+    const report = reportOf(withAdultFare(fixtureCsv, '2', '3', 'N/A'));
+
+    expect(report.nonNumericFares).toEqual([
+      { srcStationId: '2', destStationId: '3', paymentMethod: 'OCT_ADT_FARE', value: 'N/A' },
+    ]);
+    expect(report.asymmetricFares).toEqual([]);
+    expect(report.invalidRows).toEqual([]);
+  });
+
+  test('blocks on a missing fare column', () => {
+    const csv = fixtureCsv.split('\n').map(line => line.split(',').slice(0, -1).join(',')).join('\n');
+    const report = reportOf(csv);
+
+    expect(report.missingColumns).toEqual(['SINGLE_CON_ELDERLY_FARE']);
+    expect(report.invalidRows).toEqual([]);
+    expect(hasBlockingIssues(report)).toBe(true);
+  });
+});
+
+describe('validateStationData', () => {
+  const FIELDS = ['Line Code', 'Direction', 'Station Code', 'Station ID', 'Chinese Name', 'English Name', 'Sequence'];
+  const row = { 'Line Code': 'EAL', 'Direction': 'DT', 'Station Code': 'ALP', 'Station ID': 1, 'Chinese Name': '阿爾法', 'English Name': 'Alpha', 'Sequence': 1 };
+
+  test('reports malformed rows by their 1-based number', () => {
+    const report = validateStationData([...FIELDS, 'Extra'], [row, { ...row, 'Line Code': 'East Rail' }]);
+
+    expect(report.unexpectedColumns).toEqual(['Extra']);
+    expect(report.invalidRows).toEqual([{ row: 2, message: 'Line Code: must match pattern "^[A-Z]{3}$"' }]);
+    expect(hasBlockingIssues(report)).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+// Schema validation and data-quality reports for the fare and station CSVs
+// The daily data refresh can rename or drop columns; these checks make such
+// problems visible instead of letting them turn into wrong fares.
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { PAYMENT_METHODS, PaymentMethod } from './fareService';
+
+export interface NonNumericFare {
+  srcStationId: string;
+  destStationId: string;
+  paymentMethod: PaymentMethod;
+  value: unknown;
+}
+
+export interface AsymmetricFare {
+  srcStationId: string;
+  destStationId: string;
+  paymentMethod: PaymentMethod;
+  fare: number; // src -> dest
+  reverseFare: number; // dest -> src
+}
+
+export interface InvalidRow {
+  row: number; // 1-based data row (excluding the header)
+  message: string;
+}
+
+export interface DataQualityReport {
+  source: string; // CSV file name
+  rowCount: number;
+  missingColumns: string[];
+  unexpectedColumns: string[];
+  invalidRows: InvalidRow[];
+  nonNumericFares: NonNumericFare[];
+  missingPairs: { srcStationId: string; destStationId: string }[];
+  asymmetricFares: AsymmetricFare[];
+}
+
+const STATION_ID_COLUMNS = ['SRC_STATION_NAME', 'SRC_STATION_ID', 'DEST_STATION_NAME', 'DEST_STATION_ID'];
+
+const STATION_COLUMNS = [
+  'Line Code', 'Direction', 'Station Code', 'Station ID', 'Chinese Name', 'English Name', 'Sequence',
+];
+
+// One fare row after PapaParse's dynamicTyping
+// (built lazily: fareService imports this module, so PAYMENT_METHODS isn't ready at load time)
+function fareRowSchema() {
+  return {
+    type: 'object',
+    properties: {
+      SRC_STATION_NAME: { type: 'string', minLength: 1 },
+      SRC_STATION_ID: { type: ['integer', 'string'], minLength: 1 },
+      DEST_STATION_NAME: { type: 'string', minLength: 1 },
+      DEST_STATION_ID: { type: ['integer', 'string'], minLength: 1 },
+      ...Object.fromEntries(PAYMENT_METHODS.map(method => [method, { type: 'number', minimum: 0 }])),
+    },
+    required: [...STATION_ID_COLUMNS, ...PAYMENT_METHODS],
+  };
+}
+
+// One row of the lines-and-stations CSV after PapaParse's dynamicTyping
+const stationRowSchema = {
+  type: 'object',
+  properties: {
+    'Line Code': { type: 'string', pattern: '^[A-Z]{3}$' },
+    'Direction': { type: 'string', minLength: 1 },
+    'Station Code': { type: 'string', pattern: '^[A-Z]{3}$' },
+    'Station ID': { type: ['integer', 'string'], minLength: 1 },
+    'Chinese Name': { type: 'string', minLength: 1 },
+    'English Name': { type: 'string', minLength: 1 },
+    'Sequence': { type: 'number', minimum: 0 },
+  },
+  required: STATION_COLUMNS,
+};
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+let validateFareRow: ValidateFunction | null = null;
+let validateStationRow: ValidateFunction | null = null;
+
+function emptyReport(source: string, rowCount: number): DataQualityReport {
+  return {
+    source,
+    rowCount,
+    missingColumns: [],
+    unexpectedColumns: [],
+    invalidRows: [],
+    nonNumericFares: [],
+    missingPairs: [],
+    asymmetricFares: [],
+  };
+}
+
+function compareColumns(report: DataQualityReport, expected: string[], fields: string[]) {
+  report.missingColumns = expected.filter(column => !fields.includes(column));
+  report.unexpectedColumns = fields.filter(column => !expected.includes(column));
+}
+
+// Describe an ajv error, skipping columns already reported as missing
+function describeError(error: ErrorObject, missingColumns: string[]): string | null {
+  if (error.keyword === 'required' && missingColumns.includes(error.params.missingProperty)) {
+    return null;
+  }
+  const column = error.instancePath.replace(/^\//, '') || error.params.missingProperty;
+  return `${column}: ${error.message}`;
+}
+
+// Function to validate parsed fare rows against the fare schema
+export function validateFareData(fields: string[], rows: Record<string, unknown>[]): DataQualityReport {
+  const report = emptyReport('mtr_lines_fares.csv', rows.length);
+  compareColumns(report, [...STATION_ID_COLUMNS, ...PAYMENT_METHODS], fields);
+  if (!validateFareRow) {
+    validateFareRow = ajv.compile(fareRowSchema());
+  }
+  const validateRow = validateFareRow;
+
+  const fares = new Map<string, Record<string, unknown>>(); // Key: "SRC_ID-DEST_ID"
+  const stationIds = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const srcStationId = String(row.SRC_STATION_ID);
+    const destStationId = String(row.DEST_STATION_ID);
+    stationIds.add(srcStationId);
+    stationIds.add(destStationId);
+    fares.set(`${srcStationId}-${destStationId}`, row);
+
+    if (validateRow(row)) return;
+
+    const messages: string[] = [];
+    (validateRow.errors || []).forEach(error => {
+      const column = error.instancePath.replace(/^\//, '');
+      if (error.keyword === 'type' && PAYMENT_METHODS.includes(column as PaymentMethod)) {
+        report.nonNumericFares.push({
+          srcStationId,
+          destStationId,
+          paymentMethod: column as PaymentMethod,
+          value: row[column],
+        });
+        return;
+      }
+      const message = describeError(error, report.missingColumns);
+      if (message) messages.push(message);
+    });
+    if (messages.length > 0) {
+      report.invalidRows.push({ row: index + 1, message: messages.join('; ') });
+    }
+  });
+
+  // Every ordered pair of stations should have a fare, and A -> B should match B -> A
+  const methods = PAYMENT_METHODS.filter(method => !report.missingColumns.includes(method));
+  stationIds.forEach(srcStationId => {
+    stationIds.forEach(destStationId => {
+      const row = fares.get(`${srcStationId}-${destStationId}`);
+      if (!row) {
+        report.missingPairs.push({ srcStationId, destStationId });
+        return;
+      }
+      // Each unordered pair only needs checking once
+      if (srcStationId >= destStationId) return;
+      const reverseRow = fares.get(`${destStationId}-${srcStationId}`);
+      if (!reverseRow) return;
+
+      methods.forEach(paymentMethod => {
+        const fare = row[paymentMethod];
+        const reverseFare = reverseRow[paymentMethod];
+        if (typeof fare === 'number' && typeof reverseFare === 'number' && fare !== reverseFare) {
+          report.asymmetricFares.push({ srcStationId, destStationId, paymentMethod, fare, reverseFare });
+        }
+      });
+    });
+  });
+
+  return report;
+}
+
+// Function to validate parsed station rows against the station schema
+export function validateStationData(fields: string[], rows: Record<string, unknown>[]): DataQualityReport {
+  const report = emptyReport('mtr_lines_and_stations.csv', rows.length);
+  compareColumns(report, STATION_COLUMNS, fields);
+  if (!validateStationRow) {
+    validateStationRow = ajv.compile(stationRowSchema);
+  }
+  const validateRow = validateStationRow;
+
+  rows.forEach((row, index) => {
+    if (validateRow(row)) return;
+    const messages = (validateRow.errors || [])
+      .map(error => describeError(error, report.missingColumns))
+      .filter((message): message is string => message !== null);
+    if (messages.length > 0) {
+      report.invalidRows.push({ row: index + 1, message: messages.join('; ') });
+    }
+  });
+
+  return report;
+}
+
+// Errors make results untrustworthy; everything else is a warning
+export function hasBlockingIssues(report: DataQualityReport): boolean {
+  return report.missingColumns.length > 0 || report.rowCount === 0;
+}
+
+export function hasIssues(report: DataQualityReport): boolean {
+  return (
+    hasBlockingIssues(report) ||
+    report.unexpectedColumns.length > 0 ||
+    report.invalidRows.length > 0 ||
+    report.nonNumericFares.length > 0 ||
+    report.missingPairs.length > 0 ||
+    report.asymmetricFares.length > 0
+  );
+}
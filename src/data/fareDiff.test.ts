@@ -0,0 +1,72 @@
+import { fixtures, withAdultFare } from './__fixtures__/fixtures';
+import { diffFareDatasets } from './fareDiff';
+import { parseFareDataset } from './fareService';
+
+// fares_four_stations.csv: Alpha (1), Bravo (2), Charlie (3), Delta (4); see optimizer.test.ts.
+// Each case edits a copy of it to stand in for the next fare update.
+let fixtureCsv: string;
+
+beforeAll(async () => {
+  fixtureCsv = (await fixtures.read('fares_four_stations.csv')).text;
+});
+
+// Drop every row to or from a station
+const withoutStation = (csv: string, stationId: string) =>
+  csv.split('\n').filter(line => {
+    const columns = line.split(',');
+    return columns[1] !== stationId && columns[3] !== stationId;
+  }).join('\n');
+
+const routesOf = (changes: { saving: { startStationId: string; destStationId: string } }[]) =>
+  changes.map(change => `${change.saving.startStationId}-${change.saving.destStationId}`).sort();
+
+describe('diffFareDatasets', () => {
+  test('reports nothing for identical datasets', () => {
+    expect(diffFareDatasets(parseFareDataset(fixtureCsv), parseFareDataset(fixtureCsv))).toEqual({
+      increases: [],
+      decreases: [],
+      stationsAdded: [],
+      stationsRemoved: [],
+      savingsGained: [],
+      savingsLost: [],
+    });
+  });
+
+  test('lists fare changes per payment method, largest first', () => {
+    let current = withAdultFare(fixtureCsv, '1', '4', '13.00');
+    current = withAdultFare(current, '2', '3', '1.50');
+    current = withAdultFare(current, '3', '4', '7.00');
+    const diff = diffFareDatasets(parseFareDataset(fixtureCsv), parseFareDataset(current), []);
+
+    expect(diff.decreases).toEqual([
+      expect.objectContaining({ srcStationId: '1', destStationId: '4', paymentMethod: 'OCT_ADT_FARE', oldFare: 20, newFare: 13, delta: -7 }),
+    ]);
+    expect(diff.increases.map(change => [change.srcStationId, change.destStationId, change.delta]))
+      .toEqual([['3', '4', 1], ['2', '3', 0.5]]);
+  });
+
+  test('reports the savings routes a cheaper direct fare removes, for the chosen methods only', () => {
+    const current = withAdultFare(fixtureCsv, '1', '4', '13.00');
+
+    const diff = diffFareDatasets(parseFareDataset(fixtureCsv), parseFareDataset(current), ['OCT_ADT_FARE']);
+    expect(routesOf(diff.savingsLost)).toEqual(['1-4']);
+    expect(diff.savingsLost[0].paymentMethod).toBe('OCT_ADT_FARE');
+    expect(diff.savingsGained).toEqual([]);
+
+    // Student fares did not change, so their savings are not recomputed
+    expect(diffFareDatasets(parseFareDataset(fixtureCsv), parseFareDataset(current), ['OCT_STD_FARE']).savingsLost).toEqual([]);
+  });
+
+  test('reports stations added and removed, and the savings routes they bring', () => {
+    const withoutDelta = withoutStation(fixtureCsv, '4');
+
+    const added = diffFareDatasets(parseFareDataset(withoutDelta), parseFareDataset(fixtureCsv), ['OCT_ADT_FARE']);
+    expect(added.stationsAdded).toEqual([{ stationId: '4', stationName: 'Delta' }]);
+    expect(added.stationsRemoved).toEqual([]);
+    expect(routesOf(added.savingsGained)).toEqual(['1-4', '2-4', '4-1', '4-2']);
+
+    const removed = diffFareDatasets(parseFareDataset(fixtureCsv), parseFareDataset(withoutDelta), ['OCT_ADT_FARE']);
+    expect(removed.stationsRemoved).toEqual([{ stationId: '4', stationName: 'Delta' }]);
+    expect(routesOf(removed.savingsLost)).toEqual(['1-4', '2-4', '4-1', '4-2']);
+  });
+});
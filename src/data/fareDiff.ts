@@ -0,0 +1,117 @@
+// Fare dataset diff engine
+// Compares two fare datasets (e.g. the bundled previous snapshot and the current CSV)
+// and reports what changed: fares per OD pair and payment method, stations, and
+// which savings routes appeared or disappeared as a result.
+
+import { FareDataset, fareLookupFor, PAYMENT_METHODS, PaymentMethod } from './fareService';
+import { calculateAllSavings, SavingInfo } from './savingsCalculator';
+
+export interface FareChange {
+  srcStationId: string;
+  srcStationName: string;
+  destStationId: string;
+  destStationName: string;
+  paymentMethod: PaymentMethod;
+  oldFare: number;
+  newFare: number;
+  delta: number; // newFare - oldFare
+}
+
+export interface StationChange {
+  stationId: string;
+  stationName: string;
+}
+
+export interface SavingsRouteChange {
+  paymentMethod: PaymentMethod;
+  saving: SavingInfo; // From the dataset where the route exists
+}
+
+export interface FareDatasetDiff {
+  increases: FareChange[];
+  decreases: FareChange[];
+  stationsAdded: StationChange[];
+  stationsRemoved: StationChange[];
+  savingsGained: SavingsRouteChange[];
+  savingsLost: SavingsRouteChange[];
+}
+
+// A savings route is an OD pair that can be done cheaper with a split
+const savingKey = (saving: SavingInfo) => `${saving.startStationId}-${saving.destStationId}`;
+
+// Function to diff two fare datasets.
+// Savings routes are only recomputed for the given payment methods, and only
+// when that method's fares actually changed, since that is the expensive part.
+export function diffFareDatasets(
+  previous: FareDataset,
+  current: FareDataset,
+  savingsPaymentMethods: PaymentMethod[] = PAYMENT_METHODS
+): FareDatasetDiff {
+  const diff: FareDatasetDiff = {
+    increases: [],
+    decreases: [],
+    stationsAdded: [],
+    stationsRemoved: [],
+    savingsGained: [],
+    savingsLost: [],
+  };
+
+  // Stations
+  const previousStations = previous.stationIdToName;
+  const currentStations = current.stationIdToName;
+  currentStations.forEach((stationName, stationId) => {
+    if (!previousStations.has(stationId)) diff.stationsAdded.push({ stationId, stationName });
+  });
+  previousStations.forEach((stationName, stationId) => {
+    if (!currentStations.has(stationId)) diff.stationsRemoved.push({ stationId, stationName });
+  });
+
+  // Fares for OD pairs present in both datasets
+  const previousLookup = fareLookupFor(previous);
+  const currentLookup = fareLookupFor(current);
+  const changedMethods = new Set<PaymentMethod>();
+
+  current.records.forEach(record => {
+    PAYMENT_METHODS.forEach(paymentMethod => {
+      const oldFare = previousLookup.getFare(record.SRC_STATION_ID, record.DEST_STATION_ID, paymentMethod);
+      const newFare = currentLookup.getFare(record.SRC_STATION_ID, record.DEST_STATION_ID, paymentMethod);
+      if (oldFare === undefined || newFare === undefined || oldFare === newFare) return;
+
+      const change: FareChange = {
+        srcStationId: record.SRC_STATION_ID,
+        srcStationName: record.SRC_STATION_NAME,
+        destStationId: record.DEST_STATION_ID,
+        destStationName: record.DEST_STATION_NAME,
+        paymentMethod,
+        oldFare,
+        newFare,
+        delta: newFare - oldFare,
+      };
+      (change.delta > 0 ? diff.increases : diff.decreases).push(change);
+      changedMethods.add(paymentMethod);
+    });
+  });
+
+  diff.increases.sort((a, b) => b.delta - a.delta);
+  diff.decreases.sort((a, b) => a.delta - b.delta);
+
+  // Savings routes
+  const stationsChanged = diff.stationsAdded.length > 0 || diff.stationsRemoved.length > 0;
+  savingsPaymentMethods.forEach(paymentMethod => {
+    if (!stationsChanged && !changedMethods.has(paymentMethod)) return;
+
+    const previousSavings = calculateAllSavings(Array.from(previousStations.keys()), paymentMethod, previousLookup);
+    const currentSavings = calculateAllSavings(Array.from(currentStations.keys()), paymentMethod, currentLookup);
+    const previousKeys = new Set(previousSavings.map(savingKey));
+    const currentKeys = new Set(currentSavings.map(savingKey));
+
+    currentSavings.forEach(saving => {
+      if (!previousKeys.has(savingKey(saving))) diff.savingsGained.push({ paymentMethod, saving });
+    });
+    previousSavings.forEach(saving => {
+      if (!currentKeys.has(savingKey(saving))) diff.savingsLost.push({ paymentMethod, saving });
+    });
+  });
+
+  return diff;
+}
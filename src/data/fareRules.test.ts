@@ -0,0 +1,82 @@
+import {
+  applyFareRules,
+  FareRule,
+  getFareRulesFor,
+  InterchangeDiscountRule,
+  LegRebateRule,
+  parseFareRulesConfig,
+  ReentryPenaltyRule,
+} from './fareRules';
+import { RouteLeg } from './routeLeg';
+
+const name = { en: 'Rule', 'zh-Hant': '規則' };
+
+const DISCOUNT: InterchangeDiscountRule = { id: 'discount', type: 'interchangeDiscount', enabled: true, name, amount: 0.5 };
+const REBATE: LegRebateRule = { id: 'rebate', type: 'legRebate', enabled: true, name, fromLeg: 2, percent: 10 };
+const PENALTY: ReentryPenaltyRule = { id: 'penalty', type: 'reentryPenalty', enabled: true, name, amount: 4.5 };
+
+// Start 1, exits 2 and 3, destination 4: $5 + $1 + $6
+const LEGS: RouteLeg[] = [
+  { fromStationId: '1', toStationId: '2', fare: 5 },
+  { fromStationId: '2', toStationId: '3', fare: 1 },
+  { fromStationId: '3', toStationId: '4', fare: 6 },
+];
+
+const adjustments = (rules: FareRule[], legs = LEGS) =>
+  applyFareRules(legs, 'OCT_ADT_FARE', rules).appliedRules.map(rule => [rule.ruleId, rule.adjustment]);
+
+describe('applyFareRules', () => {
+  test('leaves a direct journey at its matrix fare', () => {
+    expect(applyFareRules([LEGS[0]], 'OCT_ADT_FARE', [DISCOUNT, REBATE, PENALTY])).toEqual({
+      baseFare: 5,
+      totalFare: 5,
+      appliedRules: [],
+    });
+  });
+
+  test('takes the interchange discount off every leg after a split, up to the leg fare', () => {
+    expect(adjustments([DISCOUNT])).toEqual([['discount', -1]]);
+    expect(adjustments([{ ...DISCOUNT, amount: 2 }])).toEqual([['discount', -3]]);
+    expect(adjustments([{ ...DISCOUNT, stationIds: ['3'] }])).toEqual([['discount', -0.5]]);
+  });
+
+  test('rebates a percentage of the legs from the given leg on', () => {
+    expect(adjustments([REBATE])).toEqual([['rebate', -0.7]]);
+    expect(adjustments([{ ...REBATE, fromLeg: 3 }])).toEqual([['rebate', -0.6]]);
+    // The first leg is never rebated
+    expect(adjustments([{ ...REBATE, fromLeg: 1 }])).toEqual([['rebate', -0.7]]);
+  });
+
+  test('adds the re-entry penalty once per split', () => {
+    expect(adjustments([PENALTY])).toEqual([['penalty', 9]]);
+  });
+
+  test('prices every rule on the matrix fares and lists them in config order', () => {
+    const priced = applyFareRules(LEGS, 'OCT_ADT_FARE', [PENALTY, DISCOUNT, REBATE]);
+
+    expect(priced.appliedRules.map(rule => [rule.ruleId, rule.adjustment])).toEqual([
+      ['penalty', 9],
+      ['discount', -1],
+      ['rebate', -0.7],
+    ]);
+    expect(priced.baseFare).toBe(12);
+    expect(priced.totalFare).toBe(19.3);
+    expect(applyFareRules(LEGS, 'OCT_ADT_FARE', [REBATE, DISCOUNT, PENALTY]).totalFare).toBe(19.3);
+  });
+
+  test('never prices a journey below zero', () => {
+    expect(applyFareRules(LEGS, 'OCT_ADT_FARE', [{ ...DISCOUNT, amount: 10 }, { ...REBATE, percent: 100 }]).totalFare).toBe(0);
+  });
+
+  test('skips rules for other payment methods', () => {
+    const adultOnly: FareRule = { ...PENALTY, paymentMethods: ['OCT_ADT_FARE'] };
+    expect(applyFareRules(LEGS, 'OCT_STD_FARE', [adultOnly]).totalFare).toBe(12);
+    expect(getFareRulesFor('OCT_STD_FARE', [adultOnly, DISCOUNT])).toEqual([DISCOUNT]);
+  });
+});
+
+describe('parseFareRulesConfig', () => {
+  test('keeps only enabled rules', () => {
+    expect(parseFareRulesConfig({ rules: [DISCOUNT, { ...REBATE, enabled: false }, PENALTY] })).toEqual([DISCOUNT, PENALTY]);
+  });
+});
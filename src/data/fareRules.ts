@@ -0,0 +1,130 @@
+// Fare rules engine
+// The OD matrix only prices single journeys. Rules declared in fareRulesConfig.json
+// adjust the cost of a split journey on top of the matrix fares, e.g. interchange
+// discounts, rebates on later legs or penalties for re-entering at the exit station.
+// Rules only apply between legs, so a direct journey always costs its matrix fare.
+
+import { hashText, PaymentMethod } from './fareService';
+import { RouteLeg } from './routeLeg';
+import fareRulesConfig from './fareRulesConfig.json';
+
+// A name given in both UI languages
+export interface LocalizedName {
+  en: string;
+  'zh-Hant': string;
+}
+
+interface FareRuleBase {
+  id: string;
+  enabled: boolean;
+  name: LocalizedName;
+  paymentMethods?: PaymentMethod[]; // Every payment method when omitted
+}
+
+// Fixed amount off every leg after a split, optionally only at some exit stations
+export interface InterchangeDiscountRule extends FareRuleBase {
+  type: 'interchangeDiscount';
+  amount: number;
+  stationIds?: string[];
+}
+
+// Percentage off every leg from the given leg onwards (1-based, at least 2)
+export interface LegRebateRule extends FareRuleBase {
+  type: 'legRebate';
+  fromLeg: number;
+  percent: number;
+}
+
+// Fixed amount added for every exit and re-entry at the same station
+export interface ReentryPenaltyRule extends FareRuleBase {
+  type: 'reentryPenalty';
+  amount: number;
+}
+
+export type FareRule = InterchangeDiscountRule | LegRebateRule | ReentryPenaltyRule;
+
+export interface FareRulesConfig {
+  rules: FareRule[];
+}
+
+// A rule that changed the cost of a journey; negative adjustments are discounts
+export interface AppliedFareRule {
+  ruleId: string;
+  name: LocalizedName;
+  adjustment: number;
+}
+
+export interface PricedLegs {
+  baseFare: number; // Sum of the matrix fares
+  totalFare: number; // After every applicable rule
+  appliedRules: AppliedFareRule[];
+}
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+// Function to read the enabled rules from a config object
+export function parseFareRulesConfig(config: FareRulesConfig): FareRule[] {
+  return config.rules.filter(rule => rule.enabled);
+}
+
+const configuredRules = parseFareRulesConfig(fareRulesConfig as FareRulesConfig);
+const configuredRulesHash = hashText(JSON.stringify(configuredRules));
+
+// Function to get the enabled rules from fareRulesConfig.json
+export function getFareRules(): FareRule[] {
+  return configuredRules;
+}
+
+// Fingerprint of the enabled rules, so precomputed results can tell when they are stale
+export function getFareRulesHash(): string {
+  return configuredRulesHash;
+}
+
+// Function to get the rules that apply to a payment method
+export function getFareRulesFor(paymentMethod: PaymentMethod, rules: FareRule[] = configuredRules): FareRule[] {
+  return rules.filter(rule => !rule.paymentMethods || rule.paymentMethods.includes(paymentMethod));
+}
+
+function ruleAdjustment(rule: FareRule, legs: RouteLeg[]): number {
+  const laterLegs = legs.slice(1);
+  switch (rule.type) {
+    case 'interchangeDiscount':
+      return -laterLegs
+        .filter(leg => !rule.stationIds || rule.stationIds.includes(leg.fromStationId))
+        .reduce((total, leg) => total + Math.min(rule.amount, leg.fare), 0);
+    case 'legRebate':
+      return -legs
+        .slice(Math.max(rule.fromLeg, 2) - 1)
+        .reduce((total, leg) => total + leg.fare * rule.percent / 100, 0);
+    case 'reentryPenalty':
+      return rule.amount * laterLegs.length;
+  }
+}
+
+// Function to price a chain of legs with the rules for a payment method
+export function applyFareRules(
+  legs: RouteLeg[],
+  paymentMethod: PaymentMethod,
+  rules: FareRule[] = configuredRules
+): PricedLegs {
+  const baseFare = legs.reduce((total, leg) => total + leg.fare, 0);
+  const appliedRules: AppliedFareRule[] = [];
+
+  if (legs.length > 1) {
+    getFareRulesFor(paymentMethod, rules).forEach(rule => {
+      const adjustment = roundToCents(ruleAdjustment(rule, legs));
+      if (adjustment !== 0) {
+        appliedRules.push({ ruleId: rule.id, name: rule.name, adjustment });
+      }
+    });
+  }
+
+  if (appliedRules.length === 0) {
+    return { baseFare, totalFare: baseFare, appliedRules };
+  }
+
+  const totalFare = roundToCents(
+    Math.max(0, appliedRules.reduce((total, rule) => total + rule.adjustment, baseFare))
+  );
+  return { baseFare, totalFare, appliedRules };
+}
@@ -0,0 +1,61 @@
+import { memoryDataSource } from './dataSource';
+import { fareLookupFor, FareRecord, getStationIdList, hashText, loadFareDataset, parseFareDataset } from './fareService';
+
+const HEADER = 'SRC_STATION_NAME,SRC_STATION_ID,DEST_STATION_NAME,DEST_STATION_ID,OCT_ADT_FARE,OCT_STD_FARE,OCT_JOYYOU_SIXTY_FARE,SINGLE_ADT_FARE,OCT_CON_CHILD_FARE,OCT_CON_ELDERLY_FARE,OCT_CON_PWD_FARE,SINGLE_CON_CHILD_FARE,SINGLE_CON_ELDERLY_FARE';
+
+// Two stations; Bravo to Alpha has no adult Octopus fare and a non-numeric student fare
+const CSV = [
+  HEADER,
+  'Alpha,1,Bravo,2,5.00,2.50,2.00,5.50,2.50,2.00,2.00,3.00,3.00',
+  'Bravo,2,Alpha,1,,N/A,2.00,5.50,2.50,2.00,2.00,3.00,3.00',
+].join('\n');
+
+describe('parseFareDataset', () => {
+  test('keeps station IDs as strings', () => {
+    const dataset = parseFareDataset(CSV);
+
+    expect(dataset.records[0]).toMatchObject({ SRC_STATION_ID: '1', DEST_STATION_ID: '2', OCT_ADT_FARE: 5 });
+    expect(getStationIdList(dataset)).toEqual(['1', '2']);
+    expect(dataset.stationNames).toEqual(['Alpha', 'Bravo']);
+    expect(dataset.stationNameToId.get('Bravo')).toBe('2');
+  });
+
+  test('leaves out missing and non-numeric fares instead of pricing them at zero', () => {
+    const dataset = parseFareDataset(CSV);
+    const lookup = fareLookupFor(dataset);
+
+    expect(dataset.records[1]).toMatchObject({ OCT_ADT_FARE: null, OCT_STD_FARE: null, SINGLE_ADT_FARE: 5.5 });
+    expect(lookup.getFare('2', '1', 'OCT_ADT_FARE')).toBeUndefined();
+    expect(lookup.getFare('2', '1', 'OCT_STD_FARE')).toBeUndefined();
+    expect(lookup.getFare('2', '1', 'SINGLE_ADT_FARE')).toBe(5.5);
+    expect(lookup.getStationName('2')).toBe('Bravo');
+  });
+
+  test('cannot be modified once parsed', () => {
+    const dataset = parseFareDataset(CSV);
+
+    expect(Object.isFrozen(dataset.records[0])).toBe(true);
+    expect(() => (dataset.fares as Map<string, number>).set('1-2-OCT_ADT_FARE', 0)).toThrow(TypeError);
+    expect(() => (dataset.stationIdToName as Map<string, string>).clear()).toThrow(TypeError);
+    expect(fareLookupFor(dataset).getFare('1', '2', 'OCT_ADT_FARE')).toBe(5);
+  });
+
+  test('fingerprints the text the same with or without a byte-order mark', () => {
+    expect(parseFareDataset(`\uFEFF${CSV}`).hash).toBe(hashText(CSV));
+    expect(parseFareDataset(CSV).hash).not.toBe(parseFareDataset(CSV.replace('5.00', '6.00')).hash);
+  });
+});
+
+describe('loadFareDataset', () => {
+  test('reads a named file and keeps its modification date', async () => {
+    const source = memoryDataSource({ 'fares.csv': CSV }, '2026-01-01T00:00:00.000Z');
+    const dataset = await loadFareDataset(source, 'fares.csv');
+
+    expect(dataset.records.map((record: FareRecord) => record.SRC_STATION_NAME)).toEqual(['Alpha', 'Bravo']);
+    expect(dataset.date).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  test('fails when the source has no such file', async () => {
+    await expect(loadFareDataset(memoryDataSource({}))).rejects.toThrow('No data for mtr_lines_fares.csv');
+  });
+});
@@ -1,20 +1,23 @@
 import Papa from 'papaparse';
+import { DataQualityReport, validateFareData } from './dataValidation';
+import { DataSource, FARE_CSV_FILE, getDefaultDataSource } from './dataSource';
+import { freezeMap } from './freeze';
 
-// Define the structure of a fare record
+// Define the structure of a fare record; a fare is null where the CSV has no number
 export interface FareRecord {
   SRC_STATION_NAME: string;
   SRC_STATION_ID: string;
   DEST_STATION_NAME: string;
   DEST_STATION_ID: string;
-  OCT_ADT_FARE: number; // Adult Octopus
-  OCT_STD_FARE: number; // Student Octopus
-  OCT_JOYYOU_SIXTY_FARE: number; // JoyYou (60+) Octopus
-  SINGLE_ADT_FARE: number; // Adult Single Journey
-  OCT_CON_CHILD_FARE: number; // Child Octopus
-  OCT_CON_ELDERLY_FARE: number; // Elderly Octopus
-  OCT_CON_PWD_FARE: number; // PWD Octopus
-  SINGLE_CON_CHILD_FARE: number; // Child Single Journey
-  SINGLE_CON_ELDERLY_FARE: number; // Elderly Single Journey
+  OCT_ADT_FARE: number | null; // Adult Octopus
+  OCT_STD_FARE: number | null; // Student Octopus
+  OCT_JOYYOU_SIXTY_FARE: number | null; // JoyYou (60+) Octopus
+  SINGLE_ADT_FARE: number | null; // Adult Single Journey
+  OCT_CON_CHILD_FARE: number | null; // Child Octopus
+  OCT_CON_ELDERLY_FARE: number | null; // Elderly Octopus
+  OCT_CON_PWD_FARE: number | null; // PWD Octopus
+  SINGLE_CON_CHILD_FARE: number | null; // Child Single Journey
+  SINGLE_CON_ELDERLY_FARE: number | null; // Elderly Single Journey
 }
 
 // Define payment method types
@@ -29,121 +32,235 @@ export type PaymentMethod =
   | 'SINGLE_CON_CHILD_FARE'
   | 'SINGLE_CON_ELDERLY_FARE';
 
-// Store the parsed data
-let fareData: FareRecord[] = [];
-let stationList: string[] = [];
-let stationIdToNameMap: Map<string, string> = new Map(); // Map ID to Name
-let fareMap: Map<string, number> = new Map(); // Key: "SRC_ID-DEST_ID-PAYMENT_METHOD", Value: Fare
+// All payment methods present as fare columns in the CSV
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  'OCT_ADT_FARE', 'OCT_STD_FARE', 'OCT_JOYYOU_SIXTY_FARE',
+  'SINGLE_ADT_FARE', 'OCT_CON_CHILD_FARE', 'OCT_CON_ELDERLY_FARE',
+  'OCT_CON_PWD_FARE', 'SINGLE_CON_CHILD_FARE', 'SINGLE_CON_ELDERLY_FARE'
+];
 
-// Function to load and parse the CSV data
-export async function loadFareData(): Promise<void> {
-  if (fareData.length > 0) {
-    // Already loaded
-    return;
+// A parsed fare CSV. Datasets are never modified after parsing, so several can be
+// held at once (e.g. the current and previous fare tables); the getters below
+// read from the default dataset unless given another.
+export interface FareDataset {
+  readonly records: readonly FareRecord[];
+  readonly stationNames: readonly string[]; // Unique station names, sorted
+  readonly stationIdToName: ReadonlyMap<string, string>;
+  readonly stationNameToId: ReadonlyMap<string, string>;
+  readonly fares: ReadonlyMap<string, number>; // Key: "SRC_ID-DEST_ID-PAYMENT_METHOD", Value: Fare
+  readonly hash: string; // Fingerprint of the CSV text the data was parsed from
+  readonly date: string | null; // Last-Modified time of the CSV (ISO 8601), if the source knew it
+  readonly report: DataQualityReport | null; // Schema and consistency checks of the CSV
+}
+
+export const EMPTY_FARE_DATASET: FareDataset = Object.freeze({
+  records: [],
+  stationNames: [],
+  stationIdToName: freezeMap(new Map()),
+  stationNameToId: freezeMap(new Map()),
+  fares: freezeMap(new Map()),
+  hash: '',
+  date: null,
+  report: null,
+});
+
+// Function to fingerprint CSV text (32-bit FNV-1a), used to detect stale derived data
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+type CsvRow = Record<string, unknown>;
+
+// dynamicTyping turns station IDs into numbers; keep them as strings so ID comparisons are reliable
+function toFareRecord(row: CsvRow): FareRecord {
+  const fares = {} as Record<PaymentMethod, number | null>;
+  PAYMENT_METHODS.forEach(method => {
+    const fare = row[method];
+    fares[method] = typeof fare === 'number' ? fare : null;
+  });
+  return {
+    SRC_STATION_NAME: String(row.SRC_STATION_NAME ?? ''),
+    SRC_STATION_ID: String(row.SRC_STATION_ID ?? ''),
+    DEST_STATION_NAME: String(row.DEST_STATION_NAME ?? ''),
+    DEST_STATION_ID: String(row.DEST_STATION_ID ?? ''),
+    ...fares,
+  };
+}
+
+function parseFareCsv(csvText: string): { records: FareRecord[]; fields: string[]; rows: CsvRow[] } {
+  const results = Papa.parse<CsvRow>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: true, // Automatically convert numbers
+  });
+  if (results.errors.length > 0) {
+    console.error('CSV Parsing Errors:', results.errors);
+    throw new Error('Failed to parse CSV data.');
+  }
+  return { records: results.data.map(toFareRecord), fields: results.meta.fields || [], rows: results.data };
+}
 
-  try {
-    const response = await fetch('/mtr_lines_fares.csv'); // Fetch from public folder
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+// Function to parse fare CSV text into a dataset with its lookup structures
+export function parseFareDataset(csvText: string, date: string | null = null): FareDataset {
+  const { records, fields, rows } = parseFareCsv(csvText);
+  const report = validateFareData(fields, rows);
+
+  // Extract unique station names
+  const stations = new Set<string>();
+  records.forEach(record => {
+    stations.add(record.SRC_STATION_NAME);
+    stations.add(record.DEST_STATION_NAME);
+  });
+
+  // Populate station ID to Name map
+  const stationIdToName = new Map<string, string>();
+  const stationNameToId = new Map<string, string>();
+  records.forEach(record => {
+    if (!stationIdToName.has(record.SRC_STATION_ID)) {
+      stationIdToName.set(record.SRC_STATION_ID, record.SRC_STATION_NAME);
+      stationNameToId.set(record.SRC_STATION_NAME, record.SRC_STATION_ID);
     }
-    const csvText = await response.text();
-
-    return new Promise((resolve, reject) => {
-      Papa.parse<any>(csvText, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: true, // Automatically convert numbers
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            console.error('CSV Parsing Errors:', results.errors);
-            reject(new Error('Failed to parse CSV data.'));
-            return;
-          }
-
-          fareData = results.data as FareRecord[];
-
-          // Extract unique station names
-          const stations = new Set<string>();
-          fareData.forEach(record => {
-            stations.add(record.SRC_STATION_NAME);
-            stations.add(record.DEST_STATION_NAME);
-          });
-          stationList = Array.from(stations).sort();
-
-          // Populate station ID to Name map
-          fareData.forEach(record => {
-            if (!stationIdToNameMap.has(record.SRC_STATION_ID)) {
-              stationIdToNameMap.set(record.SRC_STATION_ID, record.SRC_STATION_NAME);
-            }
-            if (!stationIdToNameMap.has(record.DEST_STATION_ID)) {
-              stationIdToNameMap.set(record.DEST_STATION_ID, record.DEST_STATION_NAME);
-            }
-          });
-
-          // Populate the fare map for quick lookups (consider all payment methods)
-          const paymentMethods: PaymentMethod[] = [
-            'OCT_ADT_FARE', 'OCT_STD_FARE', 'OCT_JOYYOU_SIXTY_FARE',
-            'SINGLE_ADT_FARE', 'OCT_CON_CHILD_FARE', 'OCT_CON_ELDERLY_FARE',
-            'OCT_CON_PWD_FARE', 'SINGLE_CON_CHILD_FARE', 'SINGLE_CON_ELDERLY_FARE'
-          ];
-          fareData.forEach(record => {
-            paymentMethods.forEach(method => {
-              const key = `${record.SRC_STATION_ID}-${record.DEST_STATION_ID}-${method}`;
-              const fare = record[method];
-              // Ensure fare is treated as a number, handle potential null/undefined from parsing
-              fareMap.set(key, typeof fare === 'number' ? fare : 0);
-            });
-          });
-
-          console.log(`Loaded ${fareData.length} fare records.`);
-          console.log(`Found ${stationList.length} unique stations.`);
-          resolve();
-        },
-        error: (error: Error) => {
-          console.error('CSV Parsing Failed:', error);
-          reject(error);
-        },
-      });
+    if (!stationIdToName.has(record.DEST_STATION_ID)) {
+      stationIdToName.set(record.DEST_STATION_ID, record.DEST_STATION_NAME);
+      stationNameToId.set(record.DEST_STATION_NAME, record.DEST_STATION_ID);
+    }
+  });
+
+  // Populate the fare map for quick lookups (consider all payment methods)
+  const fares = new Map<string, number>();
+  records.forEach(record => {
+    PAYMENT_METHODS.forEach(method => {
+      const key = `${record.SRC_STATION_ID}-${record.DEST_STATION_ID}-${method}`;
+      const fare = record[method];
+      // Missing or non-numeric fares are left out (and listed in the data-quality report)
+      // rather than defaulting to 0, which would make every split through them look free
+      if (fare !== null) {
+        fares.set(key, fare);
+      }
     });
-  } catch (error) {
-    console.error('Failed to fetch or load fare data:', error);
-    throw error; // Re-throw after logging
+  });
+
+  return Object.freeze({
+    records: Object.freeze(records.map(record => Object.freeze(record))),
+    stationNames: Object.freeze(Array.from(stations).sort()),
+    stationIdToName: freezeMap(stationIdToName),
+    stationNameToId: freezeMap(stationNameToId),
+    fares: freezeMap(fares),
+    hash: hashText(csvText.replace(/^\uFEFF/, '')), // fetch() strips a BOM, fs does not
+    date,
+    report,
+  });
+}
+
+// Function to read and parse a fare CSV from a data source
+export async function loadFareDataset(source: DataSource, fileName = FARE_CSV_FILE): Promise<FareDataset> {
+  const file = await source.read(fileName);
+  return parseFareDataset(file.text, file.lastModified);
+}
+
+let defaultFareDataset: FareDataset = EMPTY_FARE_DATASET;
+let loadingPromise: Promise<void> | null = null;
+
+// Function to get the default fare dataset (empty until loaded)
+export function getFareDataset(): FareDataset {
+  return defaultFareDataset;
+}
+
+// Function to make a dataset the default one read by the getters
+export function setFareDataset(dataset: FareDataset): void {
+  defaultFareDataset = dataset;
+}
+
+// Function to load the default fare dataset from the default data source
+export function loadFareData(): Promise<void> {
+  if (defaultFareDataset.records.length > 0) {
+    // Already loaded
+    return Promise.resolve();
   }
+  if (!loadingPromise) {
+    // Share one read between concurrent callers
+    loadingPromise = loadFareDataset(getDefaultDataSource())
+      .then(dataset => {
+        setFareDataset(dataset);
+        console.log(`Loaded ${dataset.records.length} fare records.`);
+        console.log(`Found ${dataset.stationNames.length} unique stations.`);
+      })
+      .catch(error => {
+        loadingPromise = null;
+        console.error('Failed to fetch or load fare data:', error);
+        throw error; // Re-throw after logging
+      });
+  }
+  return loadingPromise;
 }
 
 // Function to get the list of stations
-export function getStationList(): string[] {
-  return stationList;
+export function getStationList(dataset: FareDataset = defaultFareDataset): readonly string[] {
+  return dataset.stationNames;
+}
+
+// Function to get the list of station IDs present in the fare data
+export function getStationIdList(dataset: FareDataset = defaultFareDataset): string[] {
+  return Array.from(dataset.stationIdToName.keys());
 }
 
 // Function to get the station name from its ID
-export function getStationName(stationId: string): string | undefined {
-    return stationIdToNameMap.get(stationId);
+export function getStationName(stationId: string, dataset: FareDataset = defaultFareDataset): string | undefined {
+  return dataset.stationIdToName.get(stationId);
 }
 
 // Function to get the station ID from its name
-export function getStationId(stationName: string): string | undefined {
-    // Find the first record matching the station name to get its ID
-    const record = fareData.find(r => r.SRC_STATION_NAME === stationName || r.DEST_STATION_NAME === stationName);
-    // Prefer SRC_STATION_ID if it matches, otherwise use DEST_STATION_ID
-    if (record?.SRC_STATION_NAME === stationName) return record.SRC_STATION_ID;
-    if (record?.DEST_STATION_NAME === stationName) return record.DEST_STATION_ID;
-    return undefined;
+export function getStationId(stationName: string, dataset: FareDataset = defaultFareDataset): string | undefined {
+  return dataset.stationNameToId.get(stationName);
 }
 
-
 // Function to get the fare between two stations for a specific payment method
 export function getFare(
   startStationId: string,
   destStationId: string,
-  paymentMethod: PaymentMethod
+  paymentMethod: PaymentMethod,
+  dataset: FareDataset = defaultFareDataset
 ): number | undefined {
   const key = `${startStationId}-${destStationId}-${paymentMethod}`;
-  return fareMap.get(key);
+  return dataset.fares.get(key);
+}
+
+// Where fares and names come from, so calculations can run against any dataset
+export interface FareLookup {
+  getFare: (startStationId: string, destStationId: string, paymentMethod: PaymentMethod) => number | undefined;
+  getStationName: (stationId: string) => string | undefined;
+}
+
+// Function to wrap a dataset as a fare lookup; without one it reads the default dataset at call time
+export function fareLookupFor(dataset?: FareDataset): FareLookup {
+  return {
+    getFare: (startStationId, destStationId, paymentMethod) =>
+      getFare(startStationId, destStationId, paymentMethod, dataset),
+    getStationName: stationId => getStationName(stationId, dataset),
+  };
+}
+
+// Function to get the fingerprint of the loaded fare CSV
+export function getFareDataHash(dataset: FareDataset = defaultFareDataset): string {
+  return dataset.hash;
+}
+
+// Function to get when the loaded fare CSV was last modified, or null if unknown
+export function getFareDataDate(dataset: FareDataset = defaultFareDataset): string | null {
+  return dataset.date;
+}
+
+// Function to get the data-quality report of the loaded fare CSV
+export function getFareDataReport(dataset: FareDataset = defaultFareDataset): DataQualityReport | null {
+  return dataset.report;
 }
 
 // Function to get all fare records (useful for brute-force)
-export function getAllFareRecords(): FareRecord[] {
-    return fareData;
+export function getAllFareRecords(dataset: FareDataset = defaultFareDataset): readonly FareRecord[] {
+  return dataset.records;
 }
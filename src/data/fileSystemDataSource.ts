@@ -0,0 +1,18 @@
+// Node-only data source reading files from a directory (e.g. public/)
+// Kept apart from dataSource.ts so the browser bundle never pulls in fs.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DataSource } from './dataSource';
+
+// Function to create a source that reads files from a directory on disk
+export function fileSystemDataSource(directory: string): DataSource {
+  return {
+    read: async fileName => {
+      const filePath = path.join(directory, fileName);
+      const [text, stats] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+      // fetch() strips a byte-order mark; do the same so every source yields the same text
+      return { text: text.replace(/^\uFEFF/, ''), lastModified: stats.mtime.toISOString() };
+    },
+  };
+}
@@ -0,0 +1,12 @@
+// Read-only datasets
+// ReadonlyMap only protects a map in TypeScript; Object.freeze doesn't stop Map.set.
+// Datasets are shared by every part of the app, so their maps are locked at runtime too.
+
+const rejectWrite = (): never => {
+  throw new TypeError('Dataset maps are read-only');
+};
+
+// Function to lock a map in place: from now on set, delete and clear throw
+export function freezeMap<K, V>(map: Map<K, V>): ReadonlyMap<K, V> {
+  return Object.freeze(Object.assign(map, { set: rejectWrite, delete: rejectWrite, clear: rejectWrite }));
+}
@@ -0,0 +1,31 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import { EXIT_REENTRY_MINUTES, estimateJourney } from './journeyTime';
+import { EMPTY_STATION_DATASET, setStationDataset } from './mtrLines';
+
+// Lines from lines_and_stations.csv, see __fixtures__/fixtures.ts
+beforeAll(async () => {
+  setStationDataset(await loadFixtureStations(await loadFixtureFares()));
+});
+
+afterAll(() => setStationDataset(EMPTY_STATION_DATASET));
+
+describe('estimateJourney', () => {
+  test('times a direct journey by its quickest path', () => {
+    const estimate = estimateJourney(['1', '4']);
+
+    // Two Tuen Ma Line stops, a change and one Kwun Tong Line stop
+    expect(estimate?.minutes).toBe(2.5 * 2 + 3 + 2);
+    expect(estimate?.legPaths).toHaveLength(1);
+  });
+
+  test('adds the time to exit and re-enter at every split', () => {
+    const estimate = estimateJourney(['1', '2', '3', '4']);
+
+    expect(estimate?.legPaths.map(path => path.segments[0].lineId)).toEqual(['ISL', 'TML', 'KTL']);
+    expect(estimate?.minutes).toBe(2 + 2.5 + 2 + 2 * EXIT_REENTRY_MINUTES);
+  });
+
+  test('is null when a station is off the network', () => {
+    expect(estimateJourney(['1', '99', '4'])).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+// Journey-time model
+// Estimates how long a route takes from average running times between adjacent
+// stations, walking time for interchanges, and a penalty for every exit and
+// re-entry at a split station. Figures are rough averages, good for comparing
+// options rather than for timetabling.
+
+import { findNetworkPath, NetworkPath, PathCosts } from './networkGraph';
+
+// Average running time between adjacent stations, including dwell, in minutes
+const LINE_HOP_MINUTES: Record<string, number> = {
+  ISL: 2,
+  TWL: 2,
+  KTL: 2,
+  TKL: 2.5,
+  TML: 2.5,
+  EAL: 3.5,
+  TCL: 4,
+  SIL: 2.5,
+  DRL: 4,
+  AEL: 6,
+  LR: 1.5,
+};
+const DEFAULT_HOP_MINUTES = 2.5;
+
+export const INTERCHANGE_MINUTES = 3;
+export const WALKING_LINK_MINUTES = 6;
+// Leaving the paid area, tapping out and in again, and waiting for the next train
+export const EXIT_REENTRY_MINUTES = 5;
+
+export const JOURNEY_PATH_COSTS: PathCosts = {
+  hopMinutes: lineId => LINE_HOP_MINUTES[lineId] ?? DEFAULT_HOP_MINUTES,
+  interchangeMinutes: INTERCHANGE_MINUTES,
+  walkingLinkMinutes: WALKING_LINK_MINUTES,
+};
+
+export interface JourneyEstimate {
+  minutes: number;
+  legPaths: NetworkPath[]; // Quickest path for each leg
+}
+
+// Function to estimate the time of a route given as start, exit stations and destination.
+// Returns null when a station isn't on the network (e.g. it only appears in the fare data).
+export function estimateJourney(stationIds: string[]): JourneyEstimate | null {
+  const legPaths: NetworkPath[] = [];
+  for (let i = 0; i < stationIds.length - 1; i++) {
+    const path = findNetworkPath(stationIds[i], stationIds[i + 1], JOURNEY_PATH_COSTS);
+    if (!path) return null;
+    legPaths.push(path);
+  }
+
+  const ridingMinutes = legPaths.reduce((total, path) => total + path.minutes, 0);
+  return {
+    minutes: ridingMinutes + EXIT_REENTRY_MINUTES * Math.max(0, legPaths.length - 1),
+    legPaths,
+  };
+}
@@ -0,0 +1,109 @@
+import { fixtures, loadFixtureFares, summarize } from './__fixtures__/fixtures';
+import { FareDataset } from './fareService';
+import { estimateJourney } from './journeyTime';
+import {
+  EMPTY_LIGHT_RAIL_DATASET,
+  getLightRailFare,
+  LightRailDataset,
+  lightRailRouteOptions,
+  loadLightRailDataset,
+  parseLightRailDataset,
+  setLightRailDataset,
+} from './lightRail';
+import { optimizeRoute } from './optimizer';
+import { getRouteCorridor } from './routeCorridor';
+import { buildStationRegistry } from './stationRegistry';
+
+// Hand-made Light Rail fixtures: stops Delta (10), Echo (20) and Foxtrot (30).
+// Delta shares its name with MTR station 4 in fares_four_stations.csv, so it is the interchange.
+// Adult Octopus fares: 10-20 $5, 10-30 $6, 20-30 $4.
+
+let fares: FareDataset;
+let lightRail: LightRailDataset;
+
+beforeAll(async () => {
+  fares = await loadFixtureFares();
+  lightRail = await loadLightRailDataset(fixtures, buildStationRegistry(fares.records, []));
+});
+
+describe('loadLightRailDataset', () => {
+  test('gives stops prefixed IDs, except the one named like an MTR station', () => {
+    expect(lightRail.stationIds).toEqual(['4', 'LR20', 'LR30']);
+    expect(lightRail.stops.map(stop => stop.id)).toEqual(['LR20', 'LR30']);
+    expect(lightRail.interchanges.get('4')).toBe('10');
+    expect(lightRail.stopById.get('LR20')).toMatchObject({ code: 'ECH', nameEn: 'Echo', nameZh: '回聲', lines: ['901', '902'] });
+  });
+
+  test('lists each route once, in stop order', () => {
+    expect(lightRail.routes).toEqual([
+      { id: '901', stations: ['4', 'LR20', 'LR30'] },
+      { id: '902', stations: ['LR20', 'LR30'] },
+    ]);
+  });
+
+  test('keys fares by station ID and maps the fare columns to payment methods', () => {
+    expect(getLightRailFare('4', 'LR30', 'OCT_ADT_FARE', lightRail)).toBe(6);
+    expect(getLightRailFare('LR30', 'LR20', 'OCT_STD_FARE', lightRail)).toBe(2);
+    expect(getLightRailFare('LR20', 'LR30', 'OCT_JOYYOU_SIXTY_FARE', lightRail)).toBe(2);
+    expect(getLightRailFare('LR20', 'LR20', 'OCT_ADT_FARE', lightRail)).toBeUndefined();
+  });
+
+  test('accepts station ID columns in the fare table', async () => {
+    const [stopFile, fareFile] = await Promise.all([
+      fixtures.read('light_rail_routes_and_stops.csv'),
+      fixtures.read('light_rail_fares.csv'),
+    ]);
+    const fareCsv = fareFile.text.replace('"FROM_STOP_ID","TO_STOP_ID"', 'from_station_id,to_station_id');
+    const renamed = parseLightRailDataset(stopFile.text, fareCsv, buildStationRegistry(fares.records, []));
+
+    expect(renamed.fares).toEqual(lightRail.fares);
+  });
+});
+
+describe('network graph with Light Rail', () => {
+  beforeAll(() => setLightRailDataset(lightRail));
+  afterAll(() => setLightRailDataset(EMPTY_LIGHT_RAIL_DATASET));
+
+  test('follows Light Rail routes stop by stop', () => {
+    const estimate = estimateJourney(['4', 'LR30']);
+
+    expect(estimate?.legPaths[0].segments).toEqual([{ lineId: 'LR', stationIds: ['4', 'LR20', 'LR30'] }]);
+    expect(estimate?.minutes).toBe(3);
+  });
+
+  test('finds the corridor around a Light Rail trip', () => {
+    expect(getRouteCorridor('4', 'LR20', 1)).toEqual(new Map([['4', 0], ['LR20', 0], ['LR30', 1]]));
+  });
+});
+
+describe('optimizeRoute with Light Rail', () => {
+  test('changes network at the interchange when there is no through fare', () => {
+    const routes = optimizeRoute('1', 'LR20', 'OCT_ADT_FARE', lightRailRouteOptions(lightRail, fares));
+
+    expect(summarize(routes)).toEqual([{ stationIds: ['1', '4', 'LR20'], totalFare: 25 }]);
+    expect(routes[0]).toMatchObject({ isDirect: false, isCheapest: true, saving: null });
+  });
+
+  test('combines MTR splits with the Light Rail leg', () => {
+    const routes = optimizeRoute('1', 'LR20', 'OCT_ADT_FARE', {
+      ...lightRailRouteOptions(lightRail, fares),
+      maxSplits: 2,
+    });
+
+    expect(summarize(routes)).toEqual([
+      { stationIds: ['1', '3', '4', 'LR20'], totalFare: 19 },
+      { stationIds: ['1', '2', '4', 'LR20'], totalFare: 20 },
+      { stationIds: ['1', '4', 'LR20'], totalFare: 25 },
+    ]);
+  });
+
+  test('prices trips within Light Rail from its own fare table', () => {
+    const routes = optimizeRoute('LR20', 'LR30', 'OCT_ADT_FARE', lightRailRouteOptions(lightRail, fares));
+
+    expect(summarize(routes)).toEqual([{ stationIds: ['LR20', 'LR30'], totalFare: 4 }]);
+  });
+
+  test('adds nothing without Light Rail data', () => {
+    expect(lightRailRouteOptions(EMPTY_LIGHT_RAIL_DATASET, fares)).toEqual({});
+  });
+});
@@ -0,0 +1,319 @@
+// Light Rail stops, routes and fares
+// Loaded from the Light Rail open-data CSVs (stops by route, and a fare table between
+// stops) when they are present; without them the app is heavy rail only. Stops get
+// "LR"-prefixed station IDs so they never clash with MTR station IDs, except stops
+// named like an MTR station (Tuen Mun, Siu Hong, ...), which share that station's ID
+// so a journey can change between the two networks there.
+
+import Papa from 'papaparse';
+import {
+  DataSource,
+  getDefaultDataSource,
+  LIGHT_RAIL_FARE_CSV_FILE,
+  LIGHT_RAIL_STOP_CSV_FILE,
+} from './dataSource';
+import {
+  FareDataset,
+  FareLookup,
+  getFare,
+  getStationIdList,
+  getStationName,
+  PAYMENT_METHODS,
+  PaymentMethod,
+} from './fareService';
+import { freezeMap } from './freeze';
+import { getStationDataset, loadStationData, MTRLine } from './mtrLines';
+import { OptimizeOptions } from './optimizer';
+import {
+  extendStationRegistry,
+  getStationByName,
+  setStationRegistry,
+  Station,
+  StationRegistry,
+} from './stationRegistry';
+
+export const LIGHT_RAIL_ID_PREFIX = 'LR';
+
+// Display metadata, in the same shape as the MTR lines
+export const LIGHT_RAIL_LINE: Omit<MTRLine, 'stations'> = {
+  id: 'LR',
+  nameEn: 'Light Rail',
+  nameZh: '輕鐵',
+  color: '#D3A809',
+  textColor: '#FFFFFF',
+};
+
+const STOP_COLUMNS = ['Line Code', 'Direction', 'Stop Code', 'Stop ID', 'Chinese Name', 'English Name', 'Sequence'];
+const FARE_STOP_COLUMNS = ['FROM_STOP_ID', 'TO_STOP_ID'];
+// Other names the fare table has used for its stop columns
+const FARE_COLUMN_ALIASES: Record<string, string> = {
+  FROM_STATION_ID: 'FROM_STOP_ID',
+  TO_STATION_ID: 'TO_STOP_ID',
+};
+
+// Fare table column for each payment method; a missing column leaves that method unpriced
+const FARE_COLUMNS: Record<PaymentMethod, string> = {
+  OCT_ADT_FARE: 'FARE_OCTO_ADULT',
+  OCT_STD_FARE: 'FARE_OCTO_STUDENT',
+  OCT_JOYYOU_SIXTY_FARE: 'FARE_OCTO_JOYYOU_SIXTY',
+  SINGLE_ADT_FARE: 'FARE_SINGLE_ADULT',
+  OCT_CON_CHILD_FARE: 'FARE_OCTO_CHILD',
+  OCT_CON_ELDERLY_FARE: 'FARE_OCTO_ELDERLY',
+  OCT_CON_PWD_FARE: 'FARE_OCTO_PWD',
+  SINGLE_CON_CHILD_FARE: 'FARE_SINGLE_CHILD',
+  SINGLE_CON_ELDERLY_FARE: 'FARE_SINGLE_ELDERLY',
+};
+
+// A Light Rail route in one direction
+export interface LightRailRoute {
+  id: string; // Route number, e.g. "505"
+  stations: string[]; // Station IDs in stop order
+}
+
+// Parsed Light Rail CSVs, keyed by station ID. Never modified after parsing.
+export interface LightRailDataset {
+  readonly stops: readonly Station[]; // Stops that aren't MTR stations, for the station registry
+  readonly stopById: ReadonlyMap<string, Station>;
+  readonly routes: readonly LightRailRoute[];
+  readonly stationIds: readonly string[]; // Every stop, interchanges included
+  readonly interchanges: ReadonlyMap<string, string>; // MTR station ID to the Light Rail stop ID there
+  readonly fares: ReadonlyMap<string, number>; // Key: "SRC_ID-DEST_ID-PAYMENT_METHOD", Value: Fare
+}
+
+export const EMPTY_LIGHT_RAIL_DATASET: LightRailDataset = Object.freeze({
+  stops: [],
+  stopById: freezeMap(new Map()),
+  routes: [],
+  stationIds: [],
+  interchanges: freezeMap(new Map()),
+  fares: freezeMap(new Map()),
+});
+
+let defaultLightRailDataset: LightRailDataset = EMPTY_LIGHT_RAIL_DATASET;
+let loadingPromise: Promise<void> | null = null;
+
+// Function to parse a CSV into rows of strings, failing if any required column is missing
+function parseCsv(
+  csvText: string,
+  fileName: string,
+  requiredColumns: string[],
+  transformHeader = (header: string) => header.trim()
+): Record<string, string>[] {
+  const results = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader,
+  });
+  const fields = results.meta.fields || [];
+  const missing = requiredColumns.filter(column => !fields.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`${fileName} is missing columns: ${missing.join(', ')}`);
+  }
+  return results.data;
+}
+
+// Function to parse the Light Rail CSVs. Stop names are matched against the given
+// registry's MTR stations to find the interchanges.
+export function parseLightRailDataset(
+  stopCsvText: string,
+  fareCsvText: string,
+  registry: StationRegistry
+): LightRailDataset {
+  const stopRows = parseCsv(stopCsvText, LIGHT_RAIL_STOP_CSV_FILE, STOP_COLUMNS);
+  // Column names in the fare table have varied in case and naming between releases
+  const fareRows = parseCsv(
+    fareCsvText,
+    LIGHT_RAIL_FARE_CSV_FILE,
+    FARE_STOP_COLUMNS,
+    header => {
+      const name = header.trim().toUpperCase();
+      return FARE_COLUMN_ALIASES[name] ?? name;
+    }
+  );
+
+  const stationIdByStop = new Map<string, string>();
+  const interchanges = new Map<string, string>();
+  const stopRowsById = new Map<string, Record<string, string>>();
+  const routesByStation = new Map<string, Set<string>>();
+  // Line code -> direction -> stops with their sequence
+  const lineStops = new Map<string, Map<string, { stationId: string; sequence: number }[]>>();
+
+  stopRows.forEach(row => {
+    const stopId = String(row['Stop ID'] ?? '').trim();
+    const routeId = String(row['Line Code'] ?? '').trim();
+    if (!stopId || !routeId) return;
+
+    if (!stationIdByStop.has(stopId)) {
+      const mtrStation = getStationByName(String(row['English Name']).trim(), registry);
+      stationIdByStop.set(stopId, mtrStation ? mtrStation.id : LIGHT_RAIL_ID_PREFIX + stopId);
+      if (mtrStation) {
+        interchanges.set(mtrStation.id, stopId);
+      } else {
+        stopRowsById.set(stopId, row);
+      }
+    }
+    const stationId = stationIdByStop.get(stopId)!;
+
+    if (!routesByStation.has(stationId)) {
+      routesByStation.set(stationId, new Set());
+    }
+    routesByStation.get(stationId)!.add(routeId);
+
+    if (!lineStops.has(routeId)) {
+      lineStops.set(routeId, new Map());
+    }
+    const directions = lineStops.get(routeId)!;
+    const direction = String(row['Direction']).trim();
+    if (!directions.has(direction)) {
+      directions.set(direction, []);
+    }
+    directions.get(direction)!.push({ stationId, sequence: parseFloat(row['Sequence']) });
+  });
+
+  const stops: Station[] = [];
+  const stopById = new Map<string, Station>();
+  stopRowsById.forEach((row, stopId) => {
+    const stationId = LIGHT_RAIL_ID_PREFIX + stopId;
+    const station: Station = Object.freeze({
+      id: stationId,
+      code: String(row['Stop Code'] ?? '').trim() || null,
+      nameEn: String(row['English Name']).trim(),
+      nameZh: String(row['Chinese Name']).trim(),
+      lines: Array.from(routesByStation.get(stationId) || []),
+    });
+    stops.push(station);
+    stopById.set(stationId, station);
+  });
+
+  // One direction per route is enough to list its stops; circular routes only have one
+  const routes: LightRailRoute[] = [];
+  lineStops.forEach((directions, id) => {
+    const [firstDirection] = Array.from(directions.values());
+    const stations = [...firstDirection]
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(stop => stop.stationId)
+      .filter((stationId, index, all) => index === 0 || all[index - 1] !== stationId);
+    Object.freeze(stations);
+    routes.push(Object.freeze({ id, stations }));
+  });
+  routes.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+  const fares = new Map<string, number>();
+  fareRows.forEach(row => {
+    const startStationId = stationIdByStop.get(String(row.FROM_STOP_ID ?? '').trim());
+    const destStationId = stationIdByStop.get(String(row.TO_STOP_ID ?? '').trim());
+    if (!startStationId || !destStationId || startStationId === destStationId) return;
+
+    PAYMENT_METHODS.forEach(paymentMethod => {
+      const fare = parseFloat(row[FARE_COLUMNS[paymentMethod]]);
+      if (!isNaN(fare)) {
+        fares.set(`${startStationId}-${destStationId}-${paymentMethod}`, fare);
+      }
+    });
+  });
+
+  return Object.freeze({
+    stops: Object.freeze(stops),
+    stopById: freezeMap(stopById),
+    routes: Object.freeze(routes),
+    stationIds: Object.freeze(Array.from(new Set(stationIdByStop.values()))),
+    interchanges: freezeMap(interchanges),
+    fares: freezeMap(fares),
+  });
+}
+
+// Function to read and parse both Light Rail CSVs from a data source
+export async function loadLightRailDataset(
+  source: DataSource,
+  registry: StationRegistry,
+  stopFileName = LIGHT_RAIL_STOP_CSV_FILE,
+  fareFileName = LIGHT_RAIL_FARE_CSV_FILE
+): Promise<LightRailDataset> {
+  const [stopFile, fareFile] = await Promise.all([source.read(stopFileName), source.read(fareFileName)]);
+  return parseLightRailDataset(stopFile.text, fareFile.text, registry);
+}
+
+// Function to get the default Light Rail dataset (empty until loaded, or if the CSVs are missing)
+export function getLightRailDataset(): LightRailDataset {
+  return defaultLightRailDataset;
+}
+
+// Function to make a dataset the default one, adding its stops to the station registry
+export function setLightRailDataset(dataset: LightRailDataset): void {
+  defaultLightRailDataset = dataset;
+  setStationRegistry(extendStationRegistry(getStationDataset().registry, dataset.stops));
+}
+
+// Function to check whether a dataset has any Light Rail fares
+export function hasLightRailData(dataset: LightRailDataset = defaultLightRailDataset): boolean {
+  return dataset.fares.size > 0;
+}
+
+// Load the default Light Rail dataset from the default data source, after the MTR
+// station data it is matched against. Missing or malformed Light Rail files only
+// log a warning, since the rest of the app doesn't need them.
+export function loadLightRailData(): Promise<void> {
+  if (hasLightRailData()) {
+    // Already loaded
+    return Promise.resolve();
+  }
+  if (!loadingPromise) {
+    loadingPromise = (async () => {
+      await loadStationData();
+      let dataset: LightRailDataset;
+      try {
+        dataset = await loadLightRailDataset(getDefaultDataSource(), getStationDataset().registry);
+      } catch (error) {
+        console.warn('Light Rail data not available:', error);
+        return;
+      }
+      setLightRailDataset(dataset);
+    })().catch(error => {
+      loadingPromise = null;
+      throw error;
+    });
+  }
+  return loadingPromise;
+}
+
+// Function to get the Light Rail fare between two stops (by station ID)
+export function getLightRailFare(
+  startStationId: string,
+  destStationId: string,
+  paymentMethod: PaymentMethod,
+  dataset: LightRailDataset = defaultLightRailDataset
+): number | undefined {
+  return dataset.fares.get(`${startStationId}-${destStationId}-${paymentMethod}`);
+}
+
+// Function to check whether a station ID is a Light Rail stop that isn't also an MTR station
+export function isLightRailStop(stationId: string): boolean {
+  return stationId.startsWith(LIGHT_RAIL_ID_PREFIX);
+}
+
+// Function to price journeys on both networks. A pair with an MTR fare uses it, otherwise
+// the Light Rail fare. There are no through fares between the networks, so combined
+// trips come out of the optimizer as separate legs changing at an interchange.
+// Without datasets it reads the default ones at call time.
+export function combinedFareLookup(lightRail?: LightRailDataset, fares?: FareDataset): FareLookup {
+  return {
+    getFare: (startStationId, destStationId, paymentMethod) =>
+      getFare(startStationId, destStationId, paymentMethod, fares) ??
+      getLightRailFare(startStationId, destStationId, paymentMethod, lightRail),
+    getStationName: stationId =>
+      getStationName(stationId, fares) ?? (lightRail ?? defaultLightRailDataset).stopById.get(stationId)?.nameEn,
+  };
+}
+
+// Function to get optimizer options that add the Light Rail stops and fares to the search.
+// Empty when there is no Light Rail data, so the optimizer's defaults apply.
+export function lightRailRouteOptions(
+  lightRail: LightRailDataset = defaultLightRailDataset,
+  fares?: FareDataset
+): Pick<OptimizeOptions, 'lookup' | 'stationIds'> {
+  if (!hasLightRailData(lightRail)) return {};
+  return {
+    lookup: combinedFareLookup(lightRail, fares),
+    stationIds: Array.from(new Set([...getStationIdList(fares), ...lightRail.stationIds])),
+  };
+}
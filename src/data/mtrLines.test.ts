@@ -0,0 +1,68 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import {
+  EMPTY_STATION_DATASET,
+  getLinesForStation,
+  getMtrLines,
+  MTRLine,
+  setStationDataset,
+  StationDataset,
+} from './mtrLines';
+
+// Lines from lines_with_branches.csv, see __fixtures__/fixtures.ts
+let stations: StationDataset;
+
+beforeAll(async () => {
+  stations = await loadFixtureStations(await loadFixtureFares(), 'lines_with_branches.csv');
+});
+
+const lineIdsOf = (lines: readonly MTRLine[]) => lines.map(line => line.id);
+
+describe('parseStationDataset', () => {
+  test('orders a line by its downtrack direction', () => {
+    expect(getMtrLines(stations).find(line => line.id === 'TWL')).toMatchObject({ stations: ['1', '2'], branches: undefined });
+  });
+
+  test('splits a line with several downtrack directions into a trunk and branches', () => {
+    const eastRail = getMtrLines(stations).find(line => line.id === 'EAL')!;
+
+    expect(eastRail.stations).toEqual(['3', '4', '1', '2']);
+    expect(eastRail.branches).toEqual({
+      branchPoint: '3',
+      trunk: ['3', '4'],
+      branches: [
+        { name: 'Alpha', nameZh: '阿爾法', stations: ['1'] },
+        { name: 'Bravo', nameZh: '布拉沃', stations: ['2'] },
+      ],
+    });
+  });
+
+  test('keeps every known line, without stations when the CSV has none', () => {
+    expect(getMtrLines(stations)).toHaveLength(getMtrLines(EMPTY_STATION_DATASET).length);
+    expect(getMtrLines(stations).find(line => line.id === 'ISL')!.stations).toEqual([]);
+  });
+
+  test('maps each station to the lines serving it', () => {
+    expect(lineIdsOf(getLinesForStation('1', stations))).toEqual(['TWL', 'EAL']);
+    expect(lineIdsOf(getLinesForStation('4', stations))).toEqual(['EAL']);
+    expect(getLinesForStation('99', stations)).toEqual([]);
+  });
+
+  test('cannot be modified once parsed', () => {
+    const [line] = getMtrLines(stations);
+    expect(Object.isFrozen(line)).toBe(true);
+    expect(Object.isFrozen(line.stations)).toBe(true);
+    expect(() => (stations.stationToLines as Map<string, readonly MTRLine[]>).set('99', [])).toThrow(TypeError);
+    expect(() => (stations.registry.byId as Map<string, unknown>).delete('1')).toThrow(TypeError);
+  });
+});
+
+describe('getMtrLines', () => {
+  afterEach(() => setStationDataset(EMPTY_STATION_DATASET));
+
+  test('reads the default dataset', () => {
+    expect(getMtrLines()).toBe(EMPTY_STATION_DATASET.lines);
+    setStationDataset(stations);
+    expect(getMtrLines()).toBe(stations.lines);
+    expect(lineIdsOf(getLinesForStation('2'))).toEqual(['TWL', 'EAL']);
+  });
+});
@@ -2,6 +2,18 @@
 // Station data is loaded from official MTR open data CSV
 
 import Papa from 'papaparse';
+import { FareDataset, getFareDataset, loadFareData } from './fareService';
+import { DataQualityReport, validateStationData } from './dataValidation';
+import { DataSource, getDefaultDataSource, STATION_CSV_FILE } from './dataSource';
+import { freezeMap } from './freeze';
+import {
+  buildStationRegistry,
+  getStationById,
+  resolveStationId,
+  setStationRegistry,
+  StationCSVRow,
+  StationRegistry,
+} from './stationRegistry';
 
 export interface MTRLine {
   id: string;
@@ -9,30 +21,20 @@ export interface MTRLine {
   nameZh: string;
   color: string;
   textColor: string; // For contrast on colored backgrounds
-  stations: string[]; // All stations (trunk + all branch stations)
+  stations: string[]; // All station IDs (trunk + all branch stations)
   branches?: BranchStructure; // Optional: divergent route branches
 }
 
 export interface BranchStructure {
-  branchPoint: string; // Station where line splits
-  trunk: string[]; // Common stations before branch point (including branch point)
+  branchPoint: string; // Station ID where line splits
+  trunk: string[]; // Common station IDs before branch point (including branch point)
   branches: Branch[]; // All branches from the branch point
 }
 
 export interface Branch {
   name: string; // Branch endpoint name (e.g., "Lo Wu", "Lok Ma Chau")
   nameZh: string; // Chinese name
-  stations: string[]; // Stations on this branch (after branch point)
-}
-
-interface StationCSVRow {
-  'Line Code': string;
-  'Direction': string;
-  'Station Code': string;
-  'Station ID': string;
-  'Chinese Name': string;
-  'English Name': string;
-  'Sequence': string;
+  stations: string[]; // Station IDs on this branch (after branch point)
 }
 
 // Line metadata (colors and names)
@@ -109,196 +111,266 @@ const LINE_METADATA: Record<string, Omit<MTRLine, 'stations'>> = {
   },
 };
 
-// Initialize MTR_LINES with metadata and empty stations
-export let MTR_LINES: MTRLine[] = Object.values(LINE_METADATA).map(metadata => ({
-  ...metadata,
-  stations: [],
-}));
+// A parsed lines-and-stations CSV, joined against a fare dataset. Like fare datasets
+// it is never modified after parsing; the getters below read the default one.
+export interface StationDataset {
+  readonly lines: readonly MTRLine[];
+  readonly stationToLines: ReadonlyMap<string, readonly MTRLine[]>; // Station ID to the lines serving it
+  readonly registry: StationRegistry;
+  readonly report: DataQualityReport | null; // Schema and consistency checks of the CSV
+}
 
-// Create a map of station to lines for quick lookup
-export const stationToLinesMap = new Map<string, MTRLine[]>();
+// Freeze a line with its station lists, so lines shared through a dataset can't change
+const freezeLine = (line: MTRLine): MTRLine => {
+  Object.freeze(line.stations);
+  if (line.branches) {
+    Object.freeze(line.branches.trunk);
+    line.branches.branches.forEach(branch => Object.freeze(Object.freeze(branch).stations));
+    Object.freeze(line.branches.branches);
+    Object.freeze(line.branches);
+  }
+  return Object.freeze(line);
+};
 
-// Track if data has been loaded
-let isDataLoaded = false;
+export const EMPTY_STATION_DATASET: StationDataset = Object.freeze({
+  lines: Object.freeze(Object.values(LINE_METADATA).map(metadata => freezeLine({ ...metadata, stations: [] }))),
+  stationToLines: freezeMap(new Map()),
+  registry: buildStationRegistry([], []),
+  report: null,
+});
 
-// Load station data from CSV
-export async function loadStationData(): Promise<void> {
-  if (isDataLoaded) {
-    return;
-  }
+let defaultStationDataset: StationDataset = EMPTY_STATION_DATASET;
+let loadingPromise: Promise<void> | null = null;
 
-  try {
-    const response = await fetch('/mtr_lines_and_stations.csv');
-    const csvText = await response.text();
+// Function to get the default station dataset (lines without stations until loaded)
+export function getStationDataset(): StationDataset {
+  return defaultStationDataset;
+}
 
-    const parseResult = Papa.parse<StationCSVRow>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
+// Function to make a dataset the default one (the getters and the station registry)
+export function setStationDataset(dataset: StationDataset): void {
+  defaultStationDataset = dataset;
+  setStationRegistry(dataset.registry);
+}
+
+// Load the default station dataset from the default data source
+export function loadStationData(): Promise<void> {
+  if (defaultStationDataset.stationToLines.size > 0) {
+    // Already loaded
+    return Promise.resolve();
+  }
+  if (!loadingPromise) {
+    loadingPromise = (async () => {
+      // Station IDs are joined against the fare data, so it has to be loaded first
+      await loadFareData();
+      setStationDataset(await loadStationDataset(getDefaultDataSource(), getFareDataset()));
+    })().catch(error => {
+      loadingPromise = null;
+      console.error('Failed to load station data:', error);
+      throw error;
     });
+  }
+  return loadingPromise;
+}
 
-    // Group stations by line code and direction
-    const lineStationsMap = new Map<string, Map<string, Array<{ station: string; sequence: number }>>>();
+// Function to read and parse the lines-and-stations CSV from a data source
+export async function loadStationDataset(
+  source: DataSource,
+  fares: FareDataset,
+  fileName = STATION_CSV_FILE
+): Promise<StationDataset> {
+  const file = await source.read(fileName);
+  return parseStationDataset(file.text, fares);
+}
 
-    parseResult.data.forEach((row) => {
-      const lineCode = row['Line Code'];
-      const direction = row['Direction'];
-      const stationName = row['English Name'];
-      const sequence = parseFloat(row['Sequence']);
+// Function to parse the lines-and-stations CSV into lines and a station registry,
+// joined against the given fare dataset
+export function parseStationDataset(csvText: string, fares: FareDataset): StationDataset {
+  const parseResult = Papa.parse<StationCSVRow>(csvText, {
+    header: true,
+    dynamicTyping: true,
+    skipEmptyLines: 'greedy', // The CSV ends with rows of bare commas
+  });
 
-      if (!lineStationsMap.has(lineCode)) {
-        lineStationsMap.set(lineCode, new Map());
-      }
+  const report = validateStationData(
+    parseResult.meta.fields || [],
+    parseResult.data as unknown as Record<string, unknown>[]
+  );
+  const registry = buildStationRegistry(fares.records, parseResult.data);
 
-      const lineMap = lineStationsMap.get(lineCode)!;
-      if (!lineMap.has(direction)) {
-        lineMap.set(direction, []);
-      }
+  // Group stations by line code and direction
+  const lineStationsMap = new Map<string, Map<string, Array<{ station: string; sequence: number }>>>();
 
-      lineMap.get(direction)!.push({ station: stationName, sequence });
-    });
+  parseResult.data.forEach((row) => {
+    const lineCode = row['Line Code'];
+    const direction = row['Direction'];
+    // Airport Express platforms have their own IDs; use the shared station's ID
+    const stationId = resolveStationId(String(row['Station ID']), registry);
+    const sequence = parseFloat(row['Sequence']);
 
-    // Build the MTR_LINES array with loaded station data
-    MTR_LINES = Object.values(LINE_METADATA).map(metadata => {
-      const lineId = metadata.id;
-      const lineDirections = lineStationsMap.get(lineId);
+    if (!lineStationsMap.has(lineCode)) {
+      lineStationsMap.set(lineCode, new Map());
+    }
 
-      let stations: string[] = [];
-      let branchStructure: BranchStructure | undefined;
+    const lineMap = lineStationsMap.get(lineCode)!;
+    if (!lineMap.has(direction)) {
+      lineMap.set(direction, []);
+    }
 
-      if (lineDirections) {
-        // Identify all DT (downtrack) directions
-        const dtDirections: string[] = [];
-        lineDirections.forEach((_, direction) => {
-          if (direction === 'DT' || direction.endsWith('-DT')) {
-            dtDirections.push(direction);
-          }
-        });
+    lineMap.get(direction)!.push({ station: stationId, sequence });
+  });
 
-        // If there are multiple DT directions, this line has branches
-        if (dtDirections.length > 1) {
-          // Get all station sets for each direction
-          const directionStationSets = dtDirections.map(dir => {
-            const dirStations = lineDirections.get(dir)!;
-            return {
-              direction: dir,
-              stations: dirStations.sort((a, b) => a.sequence - b.sequence).map(s => s.station),
-              stationSet: new Set(dirStations.map(s => s.station))
-            };
-          });
+  // Build the lines with loaded station data
+  const lines = Object.values(LINE_METADATA).map(metadata => {
+    const lineId = metadata.id;
+    const lineDirections = lineStationsMap.get(lineId);
 
-          // Find common stations (intersection of all directions)
-          const commonStationSet = new Set(directionStationSets[0].stations);
-          directionStationSets.slice(1).forEach(({ stationSet }) => {
-            commonStationSet.forEach(station => {
-              if (!stationSet.has(station)) {
-                commonStationSet.delete(station);
-              }
-            });
-          });
+    let stations: string[] = [];
+    let branchStructure: BranchStructure | undefined;
 
-          // Find branch point (first common station where routes converge)
-          // The branches are before this point, trunk is after
-          let branchPointStation = '';
-          const firstDirStations = directionStationSets[0].stations;
+    if (lineDirections) {
+      // Identify all DT (downtrack) directions
+      const dtDirections: string[] = [];
+      lineDirections.forEach((_, direction) => {
+        if (direction === 'DT' || direction.endsWith('-DT')) {
+          dtDirections.push(direction);
+        }
+      });
 
-          // Find first common station (where divergent routes merge into trunk)
-          for (let i = 0; i < firstDirStations.length; i++) {
-            if (commonStationSet.has(firstDirStations[i])) {
-              branchPointStation = firstDirStations[i];
-              break;
+      // If there are multiple DT directions, this line has branches
+      if (dtDirections.length > 1) {
+        // Get all station sets for each direction
+        const directionStationSets = dtDirections.map(dir => {
+          const dirStations = lineDirections.get(dir)!;
+          return {
+            direction: dir,
+            stations: dirStations.sort((a, b) => a.sequence - b.sequence).map(s => s.station),
+            stationSet: new Set(dirStations.map(s => s.station))
+          };
+        });
+
+        // Find common stations (intersection of all directions)
+        const commonStationSet = new Set(directionStationSets[0].stations);
+        directionStationSets.slice(1).forEach(({ stationSet }) => {
+          commonStationSet.forEach(station => {
+            if (!stationSet.has(station)) {
+              commonStationSet.delete(station);
             }
+          });
+        });
+
+        // Find branch point (first common station where routes converge)
+        // The branches are before this point, trunk is after
+        let branchPointStation = '';
+        const firstDirStations = directionStationSets[0].stations;
+
+        // Find first common station (where divergent routes merge into trunk)
+        for (let i = 0; i < firstDirStations.length; i++) {
+          if (commonStationSet.has(firstDirStations[i])) {
+            branchPointStation = firstDirStations[i];
+            break;
           }
+        }
 
-          if (branchPointStation) {
-            // Build trunk (common stations from branch point onwards)
-            const branchPointIndex = firstDirStations.indexOf(branchPointStation);
-            const trunk: string[] = firstDirStations.slice(branchPointIndex);
-
-            // Build branches (unique stations BEFORE branch point for each direction)
-            const branches: Branch[] = [];
-
-            directionStationSets.forEach(({ direction, stations: dirStations }) => {
-              const dirBranchIndex = dirStations.indexOf(branchPointStation);
-              if (dirBranchIndex > 0) {
-                // Get stations before the branch point (these are unique to this branch)
-                const branchStations = dirStations.slice(0, dirBranchIndex);
-
-                // Get the endpoint (first station) as the branch name
-                const branchEndpoint = branchStations[0];
-                const chineseNameRow = parseResult.data.find(
-                  row => row['English Name'] === branchEndpoint && row['Line Code'] === lineId
-                );
-
-                branches.push({
-                  name: branchEndpoint,
-                  nameZh: chineseNameRow?.['Chinese Name'] || branchEndpoint,
-                  stations: branchStations,
-                });
-              }
-            });
+        if (branchPointStation) {
+          // Build trunk (common stations from branch point onwards)
+          const branchPointIndex = firstDirStations.indexOf(branchPointStation);
+          const trunk: string[] = firstDirStations.slice(branchPointIndex);
+
+          // Build branches (unique stations BEFORE branch point for each direction)
+          const branches: Branch[] = [];
+
+          directionStationSets.forEach(({ direction, stations: dirStations }) => {
+            const dirBranchIndex = dirStations.indexOf(branchPointStation);
+            if (dirBranchIndex > 0) {
+              // Get stations before the branch point (these are unique to this branch)
+              const branchStations = dirStations.slice(0, dirBranchIndex);
 
-            if (branches.length > 0) {
-              branchStructure = {
-                branchPoint: branchPointStation,
-                trunk: trunk,
-                branches: branches,
-              };
-
-              // For stations array, include trunk + all unique branch stations
-              const stationSet = new Set(trunk);
-              branches.forEach(branch => {
-                branch.stations.forEach(s => stationSet.add(s));
+              // Get the endpoint (first station) as the branch name
+              const branchEndpoint = getStationById(branchStations[0], registry);
+
+              branches.push({
+                name: branchEndpoint?.nameEn || branchStations[0],
+                nameZh: branchEndpoint?.nameZh || branchStations[0],
+                stations: branchStations,
               });
-              stations = Array.from(stationSet);
             }
-          }
-        } else {
-          // No branches, just use the regular DT direction
-          const baseDirStations = lineDirections.get('DT') || Array.from(lineDirections.values())[0];
-          if (baseDirStations) {
-            stations = baseDirStations
-              .sort((a, b) => a.sequence - b.sequence)
-              .map(({ station }) => station);
+          });
+
+          if (branches.length > 0) {
+            branchStructure = {
+              branchPoint: branchPointStation,
+              trunk: trunk,
+              branches: branches,
+            };
+
+            // For stations array, include trunk + all unique branch stations
+            const stationSet = new Set(trunk);
+            branches.forEach(branch => {
+              branch.stations.forEach(s => stationSet.add(s));
+            });
+            stations = Array.from(stationSet);
           }
         }
+      } else {
+        // No branches, just use the regular DT direction
+        const baseDirStations = lineDirections.get('DT') || Array.from(lineDirections.values())[0];
+        if (baseDirStations) {
+          stations = baseDirStations
+            .sort((a, b) => a.sequence - b.sequence)
+            .map(({ station }) => station);
+        }
       }
+    }
 
-      return {
-        ...metadata,
-        stations,
-        branches: branchStructure,
-      };
+    return freezeLine({
+      ...metadata,
+      stations,
+      branches: branchStructure,
     });
+  });
 
-    // Rebuild the station to lines map
-    stationToLinesMap.clear();
-    MTR_LINES.forEach(line => {
-      line.stations.forEach(station => {
-        if (!stationToLinesMap.has(station)) {
-          stationToLinesMap.set(station, []);
-        }
-        stationToLinesMap.get(station)!.push(line);
-      });
+  // Build the station to lines map
+  const stationToLines = new Map<string, MTRLine[]>();
+  lines.forEach(line => {
+    line.stations.forEach(station => {
+      if (!stationToLines.has(station)) {
+        stationToLines.set(station, []);
+      }
+      stationToLines.get(station)!.push(line);
     });
+  });
 
-    isDataLoaded = true;
-  } catch (error) {
-    console.error('Failed to load station data:', error);
-    throw error;
-  }
+  stationToLines.forEach(stationLines => Object.freeze(stationLines));
+
+  return Object.freeze({ lines: Object.freeze(lines), stationToLines: freezeMap(stationToLines), registry, report });
 }
 
-// Get all unique stations across all lines
-export const getAllStations = (): string[] => {
+// Get the lines of a dataset; metadata with empty stations until loaded
+export const getMtrLines = (dataset: StationDataset = defaultStationDataset): readonly MTRLine[] => {
+  return dataset.lines;
+};
+
+// Get all unique station IDs across all lines
+export const getAllStations = (dataset: StationDataset = defaultStationDataset): string[] => {
   const uniqueStations = new Set<string>();
-  MTR_LINES.forEach(line => {
+  dataset.lines.forEach(line => {
     line.stations.forEach(station => uniqueStations.add(station));
   });
-  return Array.from(uniqueStations).sort();
+  return Array.from(uniqueStations);
+};
+
+// Get lines for a specific station ID
+export const getLinesForStation = (stationId: string, dataset: StationDataset = defaultStationDataset): readonly MTRLine[] => {
+  return dataset.stationToLines.get(stationId) || [];
+};
+
+// Get a line by its ID (e.g. "TML")
+export const getLineById = (lineId: string, dataset: StationDataset = defaultStationDataset): MTRLine | undefined => {
+  return dataset.lines.find(line => line.id === lineId);
 };
 
-// Get lines for a specific station
-export const getLinesForStation = (station: string): MTRLine[] => {
-  return stationToLinesMap.get(station) || [];
+// Get the data-quality report of the loaded station CSV
+export const getStationDataReport = (dataset: StationDataset = defaultStationDataset): DataQualityReport | null => {
+  return dataset.report;
 };
@@ -0,0 +1,37 @@
+import { findNearestStations, getStationCoordinates, haversineDistance, StationCoordinate } from './nearestStation';
+
+// Three stations on a line of longitude, about 1.11 km apart, with the middle one
+// listed twice under different IDs (like the Airport Express platforms)
+const COORDINATES: Record<string, StationCoordinate> = {
+  '1': { code: 'AAA', lat: 22.30, lng: 114.17 },
+  '2': { code: 'BBB', lat: 22.31, lng: 114.17 },
+  '3': { code: 'BBB', lat: 22.31, lng: 114.17 },
+  '4': { code: 'CCC', lat: 22.32, lng: 114.17 },
+};
+
+describe('haversineDistance', () => {
+  test('measures a hundredth of a degree of latitude as about 1.11 km', () => {
+    expect(haversineDistance(COORDINATES['1'], COORDINATES['2'])).toBeCloseTo(1112, 0);
+    expect(haversineDistance(COORDINATES['1'], COORDINATES['1'])).toBe(0);
+  });
+});
+
+describe('findNearestStations', () => {
+  test('lists stations nearest first, each location once', () => {
+    const nearby = findNearestStations({ lat: 22.318, lng: 114.17 }, 3, Infinity, COORDINATES);
+    expect(nearby.map(station => station.stationId)).toEqual(['4', '2', '1']);
+  });
+
+  test('honours the limit and the maximum distance', () => {
+    const location = { lat: 22.301, lng: 114.17 };
+    expect(findNearestStations(location, 1, Infinity, COORDINATES).map(station => station.stationId)).toEqual(['1']);
+    expect(findNearestStations(location, 3, 1500, COORDINATES).map(station => station.stationId)).toEqual(['1', '2']);
+  });
+
+  test('finds Central from a point next to it in the bundled table', () => {
+    const central = getStationCoordinates('1')!;
+    const [nearest] = findNearestStations({ lat: central.lat + 0.0005, lng: central.lng });
+    expect(nearest.stationId).toBe('1');
+    expect(nearest.distanceMetres).toBeLessThan(100);
+  });
+});
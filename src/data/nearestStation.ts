@@ -0,0 +1,66 @@
+// Nearest-station lookup
+// Station locations are bundled in stationCoordinates.json, keyed by the Station ID
+// of mtr_lines_and_stations.csv. The lookup is plain arithmetic on that table (no
+// browser APIs), so it runs the same in the app, in Node scripts and in tests.
+
+import stationCoordinates from './stationCoordinates.json';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface StationCoordinate extends LatLng {
+  code: string;
+}
+
+export interface NearbyStation {
+  stationId: string;
+  distanceMetres: number;
+}
+
+const EARTH_RADIUS_METRES = 6371000;
+
+const bundledCoordinates = (stationCoordinates as { stations: Record<string, StationCoordinate> }).stations;
+
+// Function to get the bundled location of a station, if known
+export function getStationCoordinates(stationId: string): StationCoordinate | undefined {
+  return bundledCoordinates[stationId];
+}
+
+// Function to get the great-circle distance between two points, in metres
+export function haversineDistance(from: LatLng, to: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Function to find the stations closest to a location, nearest first.
+// Stations listed under several IDs (Airport Express platforms) appear once, under
+// the first ID in the table. maxDistanceMetres leaves out stations further away.
+export function findNearestStations(
+  location: LatLng,
+  limit = 3,
+  maxDistanceMetres = Infinity,
+  coordinates: Record<string, StationCoordinate> = bundledCoordinates
+): NearbyStation[] {
+  const seenCodes = new Set<string>();
+  const stations: NearbyStation[] = [];
+
+  Object.entries(coordinates).forEach(([stationId, coordinate]) => {
+    if (seenCodes.has(coordinate.code)) return;
+    seenCodes.add(coordinate.code);
+
+    const distanceMetres = haversineDistance(location, coordinate);
+    if (distanceMetres <= maxDistanceMetres) {
+      stations.push({ stationId, distanceMetres });
+    }
+  });
+
+  return stations
+    .sort((a, b) => a.distanceMetres - b.distanceMetres)
+    .slice(0, limit);
+}
@@ -0,0 +1,92 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import { FareDataset } from './fareService';
+import { EMPTY_STATION_DATASET, MTRLine, setStationDataset, StationDataset } from './mtrLines';
+import { findNetworkPath, findNetworkPathsFrom, getNetworkAdjacency, lineSequences, PathCosts } from './networkGraph';
+
+// Lines from lines_and_stations.csv, see __fixtures__/fixtures.ts
+const COSTS: PathCosts = {
+  hopMinutes: lineId => ({ ISL: 2, TML: 2.5, KTL: 2 } as Record<string, number>)[lineId],
+  interchangeMinutes: 3,
+  walkingLinkMinutes: 6,
+};
+
+let fares: FareDataset;
+let stations: StationDataset;
+
+beforeAll(async () => {
+  fares = await loadFixtureFares();
+  stations = await loadFixtureStations(fares);
+});
+
+beforeEach(() => setStationDataset(stations));
+afterAll(() => setStationDataset(EMPTY_STATION_DATASET));
+
+describe('lineSequences', () => {
+  test('runs each branch into the branch point', () => {
+    const line = {
+      stations: ['3', '4', '1', '2'],
+      branches: { branchPoint: '3', trunk: ['3', '4'], branches: [{ name: 'Alpha', nameZh: '', stations: ['1'] }, { name: 'Bravo', nameZh: '', stations: ['2'] }] },
+    } as MTRLine;
+
+    expect(lineSequences(line)).toEqual([['3', '4'], ['1', '3'], ['2', '3']]);
+  });
+});
+
+describe('getNetworkAdjacency', () => {
+  test('links adjacent stations both ways on every line serving them', () => {
+    const edges = getNetworkAdjacency().get('2')!.map(edge => `${edge.lineId}:${edge.toStationId}`);
+    expect(edges.sort()).toEqual(['ISL:1', 'TML:1', 'TML:3']);
+  });
+
+  test('is rebuilt when the station data changes', () => {
+    const before = getNetworkAdjacency();
+    setStationDataset(EMPTY_STATION_DATASET);
+    expect(getNetworkAdjacency()).not.toBe(before);
+    expect(getNetworkAdjacency().size).toBe(0);
+  });
+});
+
+describe('findNetworkPath', () => {
+  test('stays on one line rather than take a quicker first hop and change', () => {
+    // Alpha to Bravo is quicker on the Island Line, but continuing to Charlie would mean changing there
+    expect(findNetworkPath('1', '2', COSTS)?.segments).toEqual([{ lineId: 'ISL', stationIds: ['1', '2'] }]);
+    expect(findNetworkPath('1', '3', COSTS)).toEqual({
+      stationIds: ['1', '2', '3'],
+      segments: [{ lineId: 'TML', stationIds: ['1', '2', '3'] }],
+      minutes: 5,
+    });
+  });
+
+  test('adds the interchange time when changing lines', () => {
+    expect(findNetworkPath('1', '4', COSTS)).toEqual({
+      stationIds: ['1', '2', '3', '4'],
+      segments: [{ lineId: 'TML', stationIds: ['1', '2', '3'] }, { lineId: 'KTL', stationIds: ['3', '4'] }],
+      minutes: 10,
+    });
+  });
+
+  test('walks between the stations of a walking link', async () => {
+    setStationDataset(await loadFixtureStations(fares, 'lines_walking_link.csv'));
+
+    expect(findNetworkPath('1', '4', COSTS)).toEqual({
+      stationIds: ['1', '4'],
+      segments: [{ lineId: null, stationIds: ['1', '4'] }],
+      minutes: 6,
+    });
+  });
+
+  test('is null for a station off the network', () => {
+    expect(findNetworkPath('1', '99', COSTS)).toBeNull();
+    expect(findNetworkPath('1', '1', COSTS)).toEqual({ stationIds: ['1'], segments: [], minutes: 0 });
+  });
+});
+
+describe('findNetworkPathsFrom', () => {
+  test('finds the same quickest path to every other station', () => {
+    const paths = findNetworkPathsFrom('1', COSTS);
+
+    expect(Array.from(paths.keys()).sort()).toEqual(['2', '3', '4']);
+    paths.forEach((path, stationId) => expect(path).toEqual(findNetworkPath('1', stationId, COSTS)));
+    expect(findNetworkPathsFrom('99', COSTS).size).toBe(0);
+  });
+});
@@ -0,0 +1,230 @@
+// Physical network graph
+// Built from the station sequences of the loaded lines (trunk and branches) and the
+// Light Rail routes, so a journey can be followed line by line. Used for journey-time
+// estimates and route paths. Light Rail routes all count as one line, "LR".
+
+import { getLightRailDataset, LIGHT_RAIL_LINE, LightRailDataset } from './lightRail';
+import { getMtrLines, MTRLine } from './mtrLines';
+import { getStationByCode } from './stationRegistry';
+
+// Two adjacent stations on a line, or a walking link between nearby stations
+export interface NetworkEdge {
+  fromStationId: string;
+  toStationId: string;
+  lineId: string | null; // Null for a walking link
+}
+
+// Out-of-station interchanges that are a short walk apart, by station code
+const WALKING_LINKS: [string, string][] = [
+  ['TST', 'ETS'], // Tsim Sha Tsui - East Tsim Sha Tsui
+  ['CEN', 'HOK'], // Central - Hong Kong
+];
+
+// Station sequences that trains run along: the trunk, and each branch joined to the branch point
+export function lineSequences(line: MTRLine): string[][] {
+  if (!line.branches) {
+    return [line.stations];
+  }
+  const { branchPoint, trunk, branches } = line.branches;
+  return [trunk, ...branches.map(branch => [...branch.stations, branchPoint])];
+}
+
+let graphLines: readonly MTRLine[] | null = null;
+let graphLightRail: LightRailDataset | null = null;
+let adjacency = new Map<string, NetworkEdge[]>();
+
+function addEdge(edge: NetworkEdge) {
+  if (!adjacency.has(edge.fromStationId)) {
+    adjacency.set(edge.fromStationId, []);
+  }
+  adjacency.get(edge.fromStationId)!.push(edge);
+}
+
+// Function to get the adjacency list, rebuilding it whenever station or Light Rail data is reloaded
+export function getNetworkAdjacency(): Map<string, NetworkEdge[]> {
+  const mtrLines = getMtrLines();
+  const lightRail = getLightRailDataset();
+  if (graphLines === mtrLines && graphLightRail === lightRail) {
+    return adjacency;
+  }
+
+  adjacency = new Map();
+  mtrLines.forEach(line => {
+    lineSequences(line).forEach(sequence => {
+      for (let i = 0; i < sequence.length - 1; i++) {
+        addEdge({ fromStationId: sequence[i], toStationId: sequence[i + 1], lineId: line.id });
+        addEdge({ fromStationId: sequence[i + 1], toStationId: sequence[i], lineId: line.id });
+      }
+    });
+  });
+
+  // Routes overlap, so each pair of adjacent stops is only linked once
+  const lightRailLinks = new Set<string>();
+  lightRail.routes.forEach(route => {
+    for (let i = 0; i < route.stations.length - 1; i++) {
+      const [stopA, stopB] = [route.stations[i], route.stations[i + 1]].sort();
+      if (lightRailLinks.has(`${stopA}|${stopB}`)) continue;
+      lightRailLinks.add(`${stopA}|${stopB}`);
+      addEdge({ fromStationId: stopA, toStationId: stopB, lineId: LIGHT_RAIL_LINE.id });
+      addEdge({ fromStationId: stopB, toStationId: stopA, lineId: LIGHT_RAIL_LINE.id });
+    }
+  });
+
+  WALKING_LINKS.forEach(([codeA, codeB]) => {
+    const stationA = getStationByCode(codeA);
+    const stationB = getStationByCode(codeB);
+    if (!stationA || !stationB) return;
+    addEdge({ fromStationId: stationA.id, toStationId: stationB.id, lineId: null });
+    addEdge({ fromStationId: stationB.id, toStationId: stationA.id, lineId: null });
+  });
+
+  graphLines = mtrLines;
+  graphLightRail = lightRail;
+  return adjacency;
+}
+
+// Costs used to pick the best path, in minutes
+export interface PathCosts {
+  hopMinutes: (lineId: string) => number;
+  interchangeMinutes: number; // Changing lines within a station
+  walkingLinkMinutes: number; // Walking between stations of a walking link
+}
+
+// One continuous ride on a line, or a walk between stations
+export interface PathSegment {
+  lineId: string | null; // Null for a walking link
+  stationIds: string[]; // Every station passed, both ends included
+}
+
+export interface NetworkPath {
+  stationIds: string[];
+  segments: PathSegment[];
+  minutes: number;
+}
+
+// Search state key: "stationId|lineId", with an empty line for the start and walking links
+const stateKey = (stationId: string, lineId: string | null) => `${stationId}|${lineId ?? ''}`;
+
+interface NetworkSearch {
+  reached: Map<string, string>; // Station ID to its quickest state key
+  distance: Map<string, number>;
+  previous: Map<string, { key: string; edge: NetworkEdge }>;
+}
+
+// Dijkstra over (station, line) states so changing lines costs the interchange time.
+// Stops once toStationId is reached, or searches the whole network without one.
+function searchNetwork(
+  graph: Map<string, NetworkEdge[]>,
+  fromStationId: string,
+  costs: PathCosts,
+  toStationId: string | null
+): NetworkSearch {
+  const reached = new Map<string, string>();
+  const distance = new Map<string, number>();
+  const previous = new Map<string, { key: string; edge: NetworkEdge }>();
+  const settled = new Set<string>();
+  const queue: { key: string; stationId: string; lineId: string | null }[] = [];
+
+  const startKey = stateKey(fromStationId, null);
+  distance.set(startKey, 0);
+  queue.push({ key: startKey, stationId: fromStationId, lineId: null });
+
+  while (queue.length > 0) {
+    // The graph is small, so a linear scan beats maintaining a heap
+    let bestIndex = 0;
+    queue.forEach((state, index) => {
+      if (distance.get(state.key)! < distance.get(queue[bestIndex].key)!) bestIndex = index;
+    });
+    const current = queue.splice(bestIndex, 1)[0];
+    if (settled.has(current.key)) continue;
+    settled.add(current.key);
+
+    if (!reached.has(current.stationId)) {
+      reached.set(current.stationId, current.key);
+    }
+    if (current.stationId === toStationId) {
+      break;
+    }
+
+    graph.get(current.stationId)!.forEach(edge => {
+      let cost: number;
+      if (edge.lineId === null) {
+        cost = costs.walkingLinkMinutes;
+      } else {
+        cost = costs.hopMinutes(edge.lineId);
+        if (current.lineId !== null && current.lineId !== edge.lineId) {
+          cost += costs.interchangeMinutes;
+        }
+      }
+
+      const key = stateKey(edge.toStationId, edge.lineId);
+      const total = distance.get(current.key)! + cost;
+      if (total < (distance.get(key) ?? Infinity)) {
+        distance.set(key, total);
+        previous.set(key, { key: current.key, edge });
+        queue.push({ key, stationId: edge.toStationId, lineId: edge.lineId });
+      }
+    });
+  }
+
+  return { reached, distance, previous };
+}
+
+// Walk back from a reached state to the start, grouping the edges into segments by line
+function pathTo(fromStationId: string, endKey: string, search: NetworkSearch): NetworkPath {
+  const edges: NetworkEdge[] = [];
+  for (let key = endKey; search.previous.has(key); key = search.previous.get(key)!.key) {
+    edges.unshift(search.previous.get(key)!.edge);
+  }
+
+  const segments: PathSegment[] = [];
+  edges.forEach(edge => {
+    const last = segments[segments.length - 1];
+    if (last && last.lineId !== null && last.lineId === edge.lineId) {
+      last.stationIds.push(edge.toStationId);
+    } else {
+      segments.push({ lineId: edge.lineId, stationIds: [edge.fromStationId, edge.toStationId] });
+    }
+  });
+
+  return {
+    stationIds: [fromStationId, ...edges.map(edge => edge.toStationId)],
+    segments,
+    minutes: search.distance.get(endKey)!,
+  };
+}
+
+// Function to find the quickest physical path between two stations.
+// Returns null when either station is not on the network.
+export function findNetworkPath(
+  fromStationId: string,
+  toStationId: string,
+  costs: PathCosts
+): NetworkPath | null {
+  const graph = getNetworkAdjacency();
+  if (!graph.has(fromStationId) || !graph.has(toStationId)) {
+    return null;
+  }
+
+  const search = searchNetwork(graph, fromStationId, costs, toStationId);
+  const endKey = search.reached.get(toStationId);
+  return endKey === undefined ? null : pathTo(fromStationId, endKey, search);
+}
+
+// Function to find the quickest path from a station to every station it can reach,
+// keyed by destination. Empty when the station is not on the network.
+export function findNetworkPathsFrom(fromStationId: string, costs: PathCosts): Map<string, NetworkPath> {
+  const graph = getNetworkAdjacency();
+  const paths = new Map<string, NetworkPath>();
+  if (!graph.has(fromStationId)) {
+    return paths;
+  }
+
+  const search = searchNetwork(graph, fromStationId, costs, null);
+  search.reached.forEach((endKey, stationId) => {
+    if (stationId !== fromStationId) {
+      paths.set(stationId, pathTo(fromStationId, endKey, search));
+    }
+  });
+  return paths;
+}
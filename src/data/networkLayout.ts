@@ -0,0 +1,112 @@
+// Schematic network layout
+// Places every station of the loaded lines on a 2D canvas for the network map. Stations sit
+// at their location from stationCoordinates.json, pulled apart around the dense urban
+// core; a station without a known location is spaced evenly between its neighbours.
+
+import { getLinesForStation, getMtrLines, MTRLine } from './mtrLines';
+import { lineSequences } from './networkGraph';
+import { getStationCoordinates, LatLng } from './nearestStation';
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface NetworkLayout {
+  width: number;
+  height: number;
+  positions: Map<string, MapPoint>; // Station ID to position
+  lines: { lineId: string; color: string; sequences: string[][] }[];
+  interchangeStationIds: Set<string>;
+}
+
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = 760;
+const MAP_PADDING = 40;
+
+// Centre of the urban core, and how strongly it is magnified (1 = no distortion)
+const CORE_CENTRE: [number, number] = [22.305, 114.175];
+const CORE_EXPONENT = 0.7;
+
+// Project a location to unscaled map units, magnifying the core
+function project({ lat, lng }: LatLng): MapPoint {
+  const dx = (lng - CORE_CENTRE[1]) * Math.cos((CORE_CENTRE[0] * Math.PI) / 180);
+  const dy = CORE_CENTRE[0] - lat;
+  const distance = Math.hypot(dx, dy);
+  if (distance === 0) {
+    return { x: 0, y: 0 };
+  }
+  const scale = Math.pow(distance, CORE_EXPONENT) / distance;
+  return { x: dx * scale, y: dy * scale };
+}
+
+// Fill in stations without a location by spacing them evenly along the sequence
+function interpolateSequence(sequence: string[], positions: Map<string, MapPoint>) {
+  const known = sequence
+    .map((stationId, index) => ({ index, point: positions.get(stationId) }))
+    .filter((entry): entry is { index: number; point: MapPoint } => entry.point !== undefined);
+  if (known.length === 0) return;
+
+  sequence.forEach((stationId, index) => {
+    if (positions.has(stationId)) return;
+    const before = [...known].reverse().find(entry => entry.index < index);
+    const after = known.find(entry => entry.index > index);
+    if (before && after) {
+      const ratio = (index - before.index) / (after.index - before.index);
+      positions.set(stationId, {
+        x: before.point.x + (after.point.x - before.point.x) * ratio,
+        y: before.point.y + (after.point.y - before.point.y) * ratio,
+      });
+    } else {
+      // Past the last located station: keep going a small step per station
+      const nearest = (before || after)!;
+      const step = (index - nearest.index) * 0.01;
+      positions.set(stationId, { x: nearest.point.x + step, y: nearest.point.y + step });
+    }
+  });
+}
+
+let layoutLines: readonly MTRLine[] | null = null;
+let layout: NetworkLayout | null = null;
+
+// Function to lay out the loaded network, recomputed whenever station data is reloaded
+export function getNetworkLayout(): NetworkLayout {
+  const mtrLines = getMtrLines();
+  if (layout && layoutLines === mtrLines) {
+    return layout;
+  }
+
+  const lines = mtrLines.map(line => ({ lineId: line.id, color: line.color, sequences: lineSequences(line) }));
+
+  const positions = new Map<string, MapPoint>();
+  lines.forEach(line => line.sequences.forEach(sequence => sequence.forEach(stationId => {
+    const coordinates = getStationCoordinates(stationId);
+    if (coordinates) {
+      positions.set(stationId, project(coordinates));
+    }
+  })));
+  lines.forEach(line => line.sequences.forEach(sequence => interpolateSequence(sequence, positions)));
+
+  // Scale everything to the canvas, keeping the aspect ratio
+  const points = Array.from(positions.values());
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const minY = Math.min(...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y));
+  const scale = Math.min(
+    (MAP_WIDTH - 2 * MAP_PADDING) / (maxX - minX || 1),
+    (MAP_HEIGHT - 2 * MAP_PADDING) / (maxY - minY || 1)
+  );
+  positions.forEach((point, stationId) => {
+    positions.set(stationId, {
+      x: MAP_PADDING + (point.x - minX) * scale,
+      y: MAP_PADDING + (point.y - minY) * scale,
+    });
+  });
+
+  const interchangeStationIds = new Set(Array.from(positions.keys()).filter(stationId => getLinesForStation(stationId).length > 1));
+
+  layout = { width: MAP_WIDTH, height: MAP_HEIGHT, positions, lines, interchangeStationIds };
+  layoutLines = mtrLines;
+  return layout;
+}
@@ -0,0 +1,126 @@
+import { loadFixtureFares, summarize } from './__fixtures__/fixtures';
+import { fareLookupFor, FareDataset, getStationIdList } from './fareService';
+import { optimizeRoute, OptimizeOptions } from './optimizer';
+import { calculateAllSavings } from './savingsCalculator';
+
+// Hand-made fare tables under __fixtures__, four stations: Alpha (1), Bravo (2), Charlie (3), Delta (4).
+// Adult Octopus fares are symmetric: 1-2 $5, 1-3 $8, 1-4 $20, 2-3 $1, 2-4 $10, 3-4 $6.
+// Student fares are half of those; JoyYou is a flat $2, so splitting never pays.
+// fares_no_direct.csv is the same without the Alpha-Delta pair.
+
+let fourStations: FareDataset;
+let noDirect: FareDataset;
+
+beforeAll(async () => {
+  fourStations = await loadFixtureFares();
+  noDirect = await loadFixtureFares('fares_no_direct.csv');
+});
+
+const optionsFor = (dataset: FareDataset, options: OptimizeOptions = {}): OptimizeOptions => ({
+  lookup: fareLookupFor(dataset),
+  stationIds: getStationIdList(dataset),
+  ...options,
+});
+
+describe('optimizeRoute', () => {
+  test('ranks the cheapest split first, then the direct route, then other cheaper splits', () => {
+    const routes = optimizeRoute('1', '4', 'OCT_ADT_FARE', optionsFor(fourStations));
+
+    expect(summarize(routes)).toEqual([
+      { stationIds: ['1', '3', '4'], totalFare: 14 },
+      { stationIds: ['1', '4'], totalFare: 20 },
+      { stationIds: ['1', '2', '4'], totalFare: 15 },
+    ]);
+    expect(routes.map(route => route.isCheapest)).toEqual([true, false, false]);
+    expect(routes.map(route => route.isDirect)).toEqual([false, true, false]);
+    expect(routes.map(route => route.saving)).toEqual([6, 0, 5]);
+    expect(routes[0].exitStationIds).toEqual(['3']);
+    expect(routes[0].legs).toEqual([
+      { fromStationId: '1', toStationId: '3', fare: 8 },
+      { fromStationId: '3', toStationId: '4', fare: 6 },
+    ]);
+  });
+
+  test('chains several exits when more splits are allowed', () => {
+    const routes = optimizeRoute('1', '4', 'OCT_ADT_FARE', optionsFor(fourStations, { maxSplits: 2 }));
+
+    expect(summarize(routes)).toEqual([
+      { stationIds: ['1', '2', '3', '4'], totalFare: 12 },
+      { stationIds: ['1', '4'], totalFare: 20 },
+      { stationIds: ['1', '3', '4'], totalFare: 14 },
+    ]);
+    expect(routes[0].exitStationIds).toEqual(['2', '3']);
+  });
+
+  test('prices with the requested payment method', () => {
+    const routes = optimizeRoute('4', '1', 'OCT_STD_FARE', optionsFor(fourStations));
+
+    expect(summarize(routes)).toEqual([
+      { stationIds: ['4', '3', '1'], totalFare: 7 },
+      { stationIds: ['4', '1'], totalFare: 10 },
+      { stationIds: ['4', '2', '1'], totalFare: 7.5 },
+    ]);
+  });
+
+  test('returns only the direct route when no split beats it', () => {
+    const routes = optimizeRoute('1', '4', 'OCT_JOYYOU_SIXTY_FARE', optionsFor(fourStations));
+
+    expect(summarize(routes)).toEqual([{ stationIds: ['1', '4'], totalFare: 2 }]);
+    expect(routes[0]).toMatchObject({ isDirect: true, isCheapest: true, saving: 0, exitStationIds: [] });
+  });
+
+  test('trims the result to maxResults, keeping the direct route second', () => {
+    const routes = optimizeRoute('1', '4', 'OCT_ADT_FARE', optionsFor(fourStations, { maxResults: 2 }));
+
+    expect(routes.map(route => route.stationIds)).toEqual([['1', '3', '4'], ['1', '4']]);
+  });
+
+  test('only uses the allowed exit stations', () => {
+    const routes = optimizeRoute('1', '4', 'OCT_ADT_FARE', optionsFor(fourStations, {
+      exitStationIds: new Set(['2']),
+    }));
+
+    expect(routes.map(route => route.stationIds)).toEqual([['1', '2', '4'], ['1', '4']]);
+  });
+
+  test('ranks splits without a saving when the pair has no direct fare', () => {
+    const routes = optimizeRoute('1', '4', 'OCT_ADT_FARE', optionsFor(noDirect));
+
+    expect(summarize(routes)).toEqual([
+      { stationIds: ['1', '3', '4'], totalFare: 14 },
+      { stationIds: ['1', '2', '4'], totalFare: 15 },
+    ]);
+    expect(routes.every(route => !route.isDirect && route.saving === null)).toBe(true);
+    expect(routes[0].isCheapest).toBe(true);
+  });
+
+  test('returns nothing for the same station or a station without fares', () => {
+    expect(optimizeRoute('2', '2', 'OCT_ADT_FARE', optionsFor(fourStations))).toEqual([]);
+    expect(optimizeRoute('1', '99', 'OCT_ADT_FARE', optionsFor(fourStations))).toEqual([]);
+  });
+});
+
+describe('calculateAllSavings', () => {
+  test('keeps the best single split for every pair that it makes cheaper', () => {
+    const savings = calculateAllSavings(
+      getStationIdList(fourStations),
+      'OCT_ADT_FARE',
+      fareLookupFor(fourStations)
+    );
+
+    expect(savings.map(saving => [
+      saving.startStationId,
+      saving.destStationId,
+      saving.intermediateStationId,
+      saving.saving,
+    ])).toEqual([
+      ['1', '3', '2', 2],
+      ['1', '4', '3', 6],
+      ['2', '4', '3', 3],
+      ['3', '1', '2', 2],
+      ['4', '1', '3', 6],
+      ['4', '2', '3', 3],
+    ]);
+    expect(savings[1]).toMatchObject({ startStationName: 'Alpha', intermediateStationName: 'Charlie' });
+  });
+});
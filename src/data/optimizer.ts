@@ -0,0 +1,232 @@
+// Route optimizer
+// Treats every station as a node and every OD fare as an edge, then finds the
+// cheapest chain of exits (start -> X1 -> X2 -> ... -> dest) within a split limit.
+// Framework-free: the calculator, the savings page and the command-line tool rank
+// routes with optimizeRoute, against the loaded fare data or any other FareLookup.
+
+import { fareLookupFor, FareLookup, getStationIdList, PaymentMethod } from './fareService';
+import { applyFareRules, AppliedFareRule, FareRule, getFareRulesFor } from './fareRules';
+import { RouteLeg } from './routeLeg';
+
+// A full chain of exits from start to destination
+export interface SplitRoute {
+  stationIds: string[]; // Full sequence: start, every exit station, destination
+  legs: RouteLeg[]; // One leg per consecutive pair in stationIds
+  baseFare: number; // Sum of the leg fares
+  totalFare: number; // After fare rules
+  appliedRules: AppliedFareRule[];
+}
+
+// A route as returned by optimizeRoute
+export interface RankedRoute extends SplitRoute {
+  exitStationIds: string[]; // Exit stations between start and destination, empty for the direct route
+  isDirect: boolean;
+  isCheapest: boolean; // Exactly one route in a non-empty result is the cheapest
+  saving: number | null; // Direct fare minus totalFare, null when the pair has no direct fare
+}
+
+export interface OptimizeOptions {
+  maxSplits?: number; // Exit stations allowed, 1 to MAX_SPLITS_LIMIT (default 1)
+  maxResults?: number; // Routes to return (default MAX_RESULTS)
+  exitStationIds?: Set<string>; // Only these stations may be used as exits (e.g. the "on my way" corridor)
+  isLegAllowed?: (fromStationId: string, toStationId: string) => boolean; // Legs a split may ride, every leg by default
+  stationIds?: string[]; // Candidate stations, by default every station in the loaded fare data
+  lookup?: FareLookup; // Fares to price with, by default the loaded fare data
+}
+
+export const MAX_SPLITS_LIMIT = 3;
+export const MAX_RESULTS = 5;
+
+// Fares and names from the dataset loaded by fareService
+const loadedFareLookup = fareLookupFor();
+
+// The legs for a sequence of station IDs, or undefined if any leg has no fare
+function buildLegs(stationIds: string[], paymentMethod: PaymentMethod, lookup: FareLookup): RouteLeg[] | undefined {
+  const legs: RouteLeg[] = [];
+  for (let i = 0; i < stationIds.length - 1; i++) {
+    const fare = lookup.getFare(stationIds[i], stationIds[i + 1], paymentMethod);
+    if (fare === undefined) return undefined;
+    legs.push({ fromStationId: stationIds[i], toStationId: stationIds[i + 1], fare });
+  }
+  return legs;
+}
+
+// Build and price the route for a sequence of station IDs, or undefined if any leg has no fare
+function buildRoute(
+  stationIds: string[],
+  paymentMethod: PaymentMethod,
+  lookup: FareLookup,
+  rules: FareRule[]
+): SplitRoute | undefined {
+  const legs = buildLegs(stationIds, paymentMethod, lookup);
+  if (!legs) return undefined;
+  const { baseFare, totalFare, appliedRules } = applyFareRules(legs, paymentMethod, rules);
+  return { stationIds, legs, baseFare, totalFare, appliedRules };
+}
+
+// Function to find the cheapest chain of exits (by matrix fares) from each possible first exit.
+// Returns the full station sequences, one per reachable first exit.
+function findExitChains(
+  startStationId: string,
+  destStationId: string,
+  paymentMethod: PaymentMethod,
+  splits: number,
+  candidateStationIds: string[],
+  lookup: FareLookup
+): string[][] {
+  if (splits === 0) return [];
+
+  // best[j].get(x): cheapest fare from x to dest with at most j further exits
+  // next[j].get(x): the exit following x on that cheapest chain
+  const best: Map<string, number>[] = [];
+  const next: Map<string, string>[] = [];
+
+  best[0] = new Map();
+  next[0] = new Map();
+  candidateStationIds.forEach(id => {
+    if (id === destStationId) return;
+    const fare = lookup.getFare(id, destStationId, paymentMethod);
+    if (fare !== undefined) {
+      best[0].set(id, fare);
+      next[0].set(id, destStationId);
+    }
+  });
+
+  for (let j = 1; j < splits; j++) {
+    best[j] = new Map(best[j - 1]);
+    next[j] = new Map(next[j - 1]);
+
+    candidateStationIds.forEach(from => {
+      if (from === destStationId) return;
+      best[j - 1].forEach((restFare, via) => {
+        if (via === from) return;
+        const fare = lookup.getFare(from, via, paymentMethod);
+        if (fare === undefined) return;
+        const total = fare + restFare;
+        // Strictly cheaper only, so fewer exits win ties
+        if (total < (best[j].get(from) ?? Infinity)) {
+          best[j].set(from, total);
+          next[j].set(from, via);
+        }
+      });
+    });
+  }
+
+  const chains: string[][] = [];
+  const remaining = splits - 1;
+  candidateStationIds.forEach(firstExit => {
+    if (firstExit === destStationId || !best[remaining].has(firstExit)) return;
+
+    // Walk the next-pointers, spending one level of remaining exits per hop
+    const chain = [startStationId, firstExit];
+    let current = firstExit;
+    let level = remaining;
+    while (current !== destStationId) {
+      const following = next[level].get(current)!;
+      chain.push(following);
+      current = following;
+      level = Math.max(0, level - 1);
+    }
+    chains.push(chain);
+  });
+  return chains;
+}
+
+// Stations that may be exits on the way from start to destination
+function candidateStations(
+  startStationId: string,
+  destStationId: string,
+  stationIds: string[],
+  exitStationIds?: Set<string>
+): string[] {
+  return stationIds.filter(id =>
+    id !== startStationId && (id === destStationId || !exitStationIds || exitStationIds.has(id))
+  );
+}
+
+const clampSplits = (maxSplits: number) => Math.max(0, Math.min(maxSplits, MAX_SPLITS_LIMIT));
+
+// Function to rank the ways of making a journey.
+// Returns at most maxResults routes: the cheapest one first (flagged isCheapest), then
+// the direct route, then every other split that beats the direct fare, cheapest first.
+// Splits that cost the same as or more than the direct fare are left out, as are
+// repeated exit sequences. Empty when start and destination are the same station
+// or no route has a fare.
+export function optimizeRoute(
+  startStationId: string,
+  destStationId: string,
+  paymentMethod: PaymentMethod,
+  options: OptimizeOptions = {}
+): RankedRoute[] {
+  const {
+    maxSplits = 1,
+    maxResults = MAX_RESULTS,
+    exitStationIds,
+    isLegAllowed,
+    stationIds = getStationIdList(),
+    lookup = loadedFareLookup,
+  } = options;
+  if (startStationId === destStationId) return [];
+
+  // Splits only see fares for the legs they may ride; the direct route is always priced
+  const splitLookup: FareLookup = isLegAllowed
+    ? {
+      ...lookup,
+      getFare: (fromStationId, toStationId, method) =>
+        isLegAllowed(fromStationId, toStationId) ? lookup.getFare(fromStationId, toStationId, method) : undefined,
+    }
+    : lookup;
+
+  const rules = getFareRulesFor(paymentMethod);
+  const direct = buildRoute([startStationId, destStationId], paymentMethod, lookup, rules);
+  const directFare = direct ? direct.totalFare : Infinity;
+  const chains = findExitChains(
+    startStationId,
+    destStationId,
+    paymentMethod,
+    clampSplits(maxSplits),
+    candidateStations(startStationId, destStationId, stationIds, exitStationIds),
+    splitLookup
+  );
+
+  // Price every chain, but only build full routes for the ones that beat the direct fare
+  const cheaperChains: { stationIds: string[]; totalFare: number }[] = [];
+  chains.forEach(chain => {
+    const legs = buildLegs(chain, paymentMethod, splitLookup);
+    if (!legs) return;
+    const totalFare = rules.length === 0
+      ? legs.reduce((total, leg) => total + leg.fare, 0)
+      : applyFareRules(legs, paymentMethod, rules).totalFare;
+    if (totalFare < directFare) {
+      cheaperChains.push({ stationIds: chain, totalFare });
+    }
+  });
+  cheaperChains.sort((a, b) => a.totalFare - b.totalFare || a.stationIds.length - b.stationIds.length);
+
+  const ordered: SplitRoute[] = [];
+  const seen = new Set<string>();
+  const add = (route: SplitRoute | undefined) => {
+    if (!route || ordered.length >= maxResults) return;
+    const key = route.stationIds.join('-');
+    if (seen.has(key)) return;
+    seen.add(key);
+    ordered.push(route);
+  };
+
+  const [cheapest, ...otherChains] = cheaperChains;
+  add(cheapest ? buildRoute(cheapest.stationIds, paymentMethod, lookup, rules) : direct);
+  add(direct);
+  otherChains.forEach(chain => {
+    if (ordered.length < maxResults) {
+      add(buildRoute(chain.stationIds, paymentMethod, lookup, rules));
+    }
+  });
+
+  return ordered.map((route, index) => ({
+    ...route,
+    exitStationIds: route.stationIds.slice(1, -1),
+    isDirect: route.legs.length === 1,
+    isCheapest: index === 0,
+    saving: direct ? directFare - route.totalFare : null,
+  }));
+}
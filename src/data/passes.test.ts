@@ -0,0 +1,112 @@
+import { CommutePlan, CommuteTrip, CommuteTripPlan, projectCost } from './commutePlanner';
+import { comparePasses, TravelPass } from './passes';
+
+const DAY_PASS: TravelPass = {
+  id: 'day-pass',
+  name: { en: 'Day Pass', 'zh-Hant': '全日通' },
+  price: 15,
+  validityDays: 1,
+  paymentMethods: ['OCT_ADT_FARE'],
+  coverage: {},
+};
+
+const MONTHLY_PASS: TravelPass = {
+  id: 'monthly-pass',
+  name: { en: 'Monthly Pass', 'zh-Hant': '全月通' },
+  price: 350,
+  validityDays: 30,
+  coverage: { stationIds: ['1', '2'] },
+};
+
+// Weekday commute: 10 trips over 5 days a week in a 28-day month, i.e. 20 travel days
+const commute = (overrides: Partial<CommuteTrip> = {}): CommuteTrip => ({
+  id: '1',
+  startStationId: '1',
+  destStationId: '2',
+  paymentMethod: 'OCT_ADT_FARE',
+  tripsPerWeek: 10,
+  daysPerWeek: 5,
+  daysPerMonth: 28,
+  ...overrides,
+});
+
+// A trip whose split fare is the same as its direct fare, without needing fare data
+const tripPlan = (trip: CommuteTrip, fare: number): CommuteTripPlan => ({
+  trip,
+  directFare: fare,
+  bestRoute: null,
+  direct: projectCost(fare, trip),
+  optimized: projectCost(fare, trip),
+  saving: { weekly: 0, monthly: 0, yearly: 0 },
+});
+
+const planOf = (tripPlans: CommuteTripPlan[]): CommutePlan => {
+  const monthly = tripPlans.reduce((total, plan) => total + plan.direct.monthly, 0);
+  const cost = { weekly: monthly * 7 / 28, monthly, yearly: monthly * 12 };
+  return { trips: tripPlans, direct: cost, optimized: cost, saving: { weekly: 0, monthly: 0, yearly: 0 } };
+};
+
+describe('comparePasses', () => {
+  test('buys day passes for travel days only', () => {
+    const report = comparePasses(planOf([tripPlan(commute(), 10)]), [DAY_PASS, MONTHLY_PASS]);
+    const [dayPass, monthlyPass] = report.passes;
+
+    expect(report.directMonthlyCost).toBe(400);
+    expect(dayPass.passCount).toBe(20);
+    expect(dayPass.monthlyCost).toBe(300);
+    expect(monthlyPass.passCount).toBe(1);
+    expect(monthlyPass.monthlyCost).toBe(350);
+    expect(report.cheapest).toEqual({ kind: 'pass', passId: 'day-pass' });
+  });
+
+  test('needs a day pass every day of the month for a daily commute', () => {
+    const report = comparePasses(planOf([tripPlan(commute({ daysPerWeek: 7, tripsPerWeek: 14 }), 10)]), [DAY_PASS, MONTHLY_PASS]);
+
+    expect(report.passes[0].passCount).toBe(28);
+    expect(report.passes[0].monthlyCost).toBe(420);
+    expect(report.cheapest).toEqual({ kind: 'pass', passId: 'monthly-pass' });
+  });
+
+  test('adds pay-per-ride for trips a pass does not cover', () => {
+    const covered = tripPlan(commute(), 10);
+    const otherMethod = tripPlan(commute({ id: '2', paymentMethod: 'OCT_STD_FARE', tripsPerWeek: 7, daysPerWeek: 7 }), 5);
+    const report = comparePasses(planOf([covered, otherMethod]), [DAY_PASS]);
+
+    // Only the adult trip is covered, so its five travel days set the number of passes
+    expect(report.passes[0].coveredTripIds).toEqual(['1']);
+    expect(report.passes[0].passCount).toBe(20);
+    expect(report.passes[0].monthlyCost).toBe(300 + 140);
+    // 20 day passes at $15 against $10 trips
+    expect(report.passes[0].breakEvenTrips).toBe(30);
+  });
+
+  test('pays per ride for the days left after the last whole pass', () => {
+    // 31 days: one 30-day pass and a day of pay-per-ride at $400 / 28 a day
+    const report = comparePasses(planOf([tripPlan(commute({ daysPerMonth: 31 }), 10)]), [MONTHLY_PASS]);
+    const [monthlyPass] = report.passes;
+
+    expect(monthlyPass.passCount).toBe(1);
+    expect(monthlyPass.leftoverFare).toBeCloseTo(400 / 28);
+    expect(monthlyPass.monthlyCost).toBeCloseTo(350 + 400 / 28);
+    expect(report.cheapest).toEqual({ kind: 'pass', passId: 'monthly-pass' });
+  });
+
+  test('buys another pass when it is cheaper than the leftover days', () => {
+    const report = comparePasses(planOf([tripPlan(commute({ daysPerMonth: 31 }), 10)]), [{ ...MONTHLY_PASS, price: 10 }]);
+
+    expect(report.passes[0].passCount).toBe(2);
+    expect(report.passes[0].leftoverFare).toBe(0);
+    expect(report.passes[0].monthlyCost).toBe(20);
+  });
+
+  test('breaks even on the cost of every pass bought', () => {
+    // Two $10 passes against $10 trips
+    const report = comparePasses(planOf([tripPlan(commute({ daysPerMonth: 31 }), 10)]), [{ ...MONTHLY_PASS, price: 10 }]);
+    expect(report.passes[0].breakEvenTrips).toBe(2);
+  });
+
+  test('keeps pay-per-ride when no pass is cheaper', () => {
+    const report = comparePasses(planOf([tripPlan(commute({ tripsPerWeek: 5 }), 2)]), [DAY_PASS, MONTHLY_PASS]);
+    expect(report.cheapest).toEqual({ kind: 'direct' });
+  });
+});
@@ -0,0 +1,147 @@
+// Travel pass catalogue and break-even comparison
+// Passes are declared in passCatalogue.json with a price, a validity period and the
+// stations or lines they cover. Planned trips from the commute planner are priced
+// with each pass and compared with direct and split pay-per-ride over a month.
+
+import { PaymentMethod } from './fareService';
+import { LocalizedName } from './fareRules';
+import { getLinesForStation } from './mtrLines';
+import { CommutePlan, CommuteTripPlan, DAYS_PER_WEEK } from './commutePlanner';
+import passCatalogue from './passCatalogue.json';
+
+// Stations a pass covers. A trip is covered when both ends are.
+// With neither lines nor stationIds the whole network is covered.
+export interface PassCoverage {
+  lines?: string[]; // Line IDs, e.g. TML
+  stationIds?: string[];
+  excludeStationIds?: string[];
+}
+
+export interface TravelPass {
+  id: string;
+  name: LocalizedName;
+  price: number;
+  validityDays: number;
+  paymentMethods?: PaymentMethod[]; // Fares the pass replaces; every payment method when omitted
+  coverage: PassCoverage;
+}
+
+export interface PassCatalogue {
+  passes: TravelPass[];
+}
+
+export interface PassComparison {
+  pass: TravelPass;
+  coveredTripIds: string[];
+  passCount: number; // Passes bought to cover the month, or its travel days for passes shorter than a week
+  leftoverFare: number; // Split pay-per-ride for covered trips on days left over after the last whole pass
+  monthlyCost: number; // Passes, leftover days and split pay-per-ride for the trips the pass doesn't cover
+  breakEvenTrips: number | null; // Covered trips a month before the passes bought pay off
+}
+
+export type CommuteOption =
+  | { kind: 'direct' }
+  | { kind: 'split' }
+  | { kind: 'pass'; passId: string };
+
+export interface PassReport {
+  monthDays: number;
+  directMonthlyCost: number;
+  splitMonthlyCost: number;
+  passes: PassComparison[];
+  cheapest: CommuteOption;
+}
+
+const catalogue = (passCatalogue as PassCatalogue).passes;
+
+// Function to get the passes from passCatalogue.json
+export function getPassCatalogue(): TravelPass[] {
+  return catalogue;
+}
+
+// Function to check whether a pass covers a station
+export function isStationCoveredByPass(pass: TravelPass, stationId: string): boolean {
+  const { lines, stationIds, excludeStationIds } = pass.coverage;
+  if (excludeStationIds?.includes(stationId)) return false;
+  if (!lines && !stationIds) return true;
+  if (stationIds?.includes(stationId)) return true;
+  return !!lines && getLinesForStation(stationId).some(line => lines.includes(line.id));
+}
+
+// Function to check whether a pass covers a planned trip
+export function isTripCoveredByPass(pass: TravelPass, tripPlan: CommuteTripPlan): boolean {
+  const { trip } = tripPlan;
+  if (pass.paymentMethods && !pass.paymentMethods.includes(trip.paymentMethod)) return false;
+  return isStationCoveredByPass(pass, trip.startStationId) && isStationCoveredByPass(pass, trip.destStationId);
+}
+
+// Days of the month a pass has to cover. Passes shorter than a week (day passes) are
+// only bought on travel days, taken as the busiest schedule among the covered trips;
+// longer passes run for the whole month.
+function passDays(pass: TravelPass, covered: CommuteTripPlan[], monthDays: number): number {
+  if (pass.validityDays >= DAYS_PER_WEEK) return monthDays;
+  const daysPerWeek = Math.min(DAYS_PER_WEEK, Math.max(0, ...covered.map(tripPlan => tripPlan.trip.daysPerWeek)));
+  return daysPerWeek * monthDays / DAYS_PER_WEEK;
+}
+
+function comparePass(pass: TravelPass, tripPlans: CommuteTripPlan[], monthDays: number): PassComparison {
+  const covered = tripPlans.filter(tripPlan => isTripCoveredByPass(pass, tripPlan));
+  const uncovered = tripPlans.filter(tripPlan => !covered.includes(tripPlan));
+  const coveredMonthlyCost = covered.reduce((total, tripPlan) => total + tripPlan.optimized.monthly, 0);
+
+  // Days left over after the last whole pass (a 31-day month with a 30-day pass) are paid
+  // per ride, unless one more pass is cheaper
+  const days = passDays(pass, covered, monthDays);
+  let passCount = Math.floor(days / pass.validityDays);
+  let leftoverFare = days > 0 ? coveredMonthlyCost * (days - passCount * pass.validityDays) / days : 0;
+  if (leftoverFare > pass.price) {
+    passCount++;
+    leftoverFare = 0;
+  }
+
+  // Break-even against the cheapest pay-per-ride fare of the covered trips, weighted by how often each is made.
+  // A month too short for a whole pass still shows what one pass needs.
+  const coveredTripsPerWeek = covered.reduce((total, tripPlan) => total + tripPlan.trip.tripsPerWeek, 0);
+  const coveredWeeklyCost = covered.reduce((total, tripPlan) => total + tripPlan.optimized.weekly, 0);
+  const averageFare = coveredTripsPerWeek > 0 ? coveredWeeklyCost / coveredTripsPerWeek : 0;
+  const passesCost = Math.max(1, passCount) * pass.price;
+
+  return {
+    pass,
+    coveredTripIds: covered.map(tripPlan => tripPlan.trip.id),
+    passCount,
+    leftoverFare,
+    monthlyCost: passCount * pass.price + leftoverFare + uncovered.reduce((total, tripPlan) => total + tripPlan.optimized.monthly, 0),
+    breakEvenTrips: averageFare > 0 ? Math.ceil(passesCost / averageFare) : null,
+  };
+}
+
+// Function to compare direct and split pay-per-ride with every pass for a commute plan.
+// Only trips with a fare are compared; the month is the longest one among the trips.
+export function comparePasses(plan: CommutePlan, passes: TravelPass[] = catalogue): PassReport {
+  const tripPlans = plan.trips.filter(tripPlan => tripPlan.directFare !== null);
+  const monthDays = Math.max(0, ...tripPlans.map(tripPlan => tripPlan.trip.daysPerMonth));
+  const comparisons = passes.map(pass => comparePass(pass, tripPlans, monthDays));
+
+  // Ties go to the simpler option: direct, then split, then passes
+  let cheapest: CommuteOption = { kind: 'direct' };
+  let cheapestCost = plan.direct.monthly;
+  if (plan.optimized.monthly < cheapestCost) {
+    cheapest = { kind: 'split' };
+    cheapestCost = plan.optimized.monthly;
+  }
+  comparisons.forEach(comparison => {
+    if (comparison.coveredTripIds.length > 0 && comparison.monthlyCost < cheapestCost) {
+      cheapest = { kind: 'pass', passId: comparison.pass.id };
+      cheapestCost = comparison.monthlyCost;
+    }
+  });
+
+  return {
+    monthDays,
+    directMonthlyCost: plan.direct.monthly,
+    splitMonthlyCost: plan.optimized.monthly,
+    passes: comparisons,
+    cheapest,
+  };
+}
@@ -0,0 +1,46 @@
+import { loadFixtureFares } from './__fixtures__/fixtures';
+import { EMPTY_FARE_DATASET, FareDataset, PAYMENT_METHODS, setFareDataset } from './fareService';
+import { comparePaymentMethods } from './paymentComparison';
+
+// Fares from __fixtures__, see optimizer.test.ts
+let fourStations: FareDataset;
+let noDirect: FareDataset;
+
+beforeAll(async () => {
+  fourStations = await loadFixtureFares();
+  noDirect = await loadFixtureFares('fares_no_direct.csv');
+});
+
+beforeEach(() => setFareDataset(fourStations));
+afterAll(() => setFareDataset(EMPTY_FARE_DATASET));
+
+// Function to find the comparison for one payment method
+const comparisonFor = (paymentMethod: string, startStationId = '1', destStationId = '4') =>
+  comparePaymentMethods(startStationId, destStationId).find(comparison => comparison.paymentMethod === paymentMethod);
+
+describe('comparePaymentMethods', () => {
+  test('compares every payment method in order', () => {
+    expect(comparePaymentMethods('1', '4').map(comparison => comparison.paymentMethod)).toEqual(PAYMENT_METHODS);
+  });
+
+  test('finds the best single split for each method', () => {
+    expect(comparisonFor('OCT_ADT_FARE')).toEqual({
+      paymentMethod: 'OCT_ADT_FARE',
+      directFare: 20,
+      bestSplitFare: 14,
+      bestSplitStationId: '3',
+      saving: 6,
+      appliedRules: [],
+    });
+    expect(comparisonFor('OCT_STD_FARE')).toMatchObject({ directFare: 10, bestSplitFare: 7, bestSplitStationId: '3', saving: 3 });
+  });
+
+  test('has no saving when splitting costs more', () => {
+    expect(comparisonFor('OCT_JOYYOU_SIXTY_FARE')).toMatchObject({ directFare: 2, bestSplitFare: 4, saving: 0 });
+  });
+
+  test('keeps the split fare when there is no direct fare', () => {
+    setFareDataset(noDirect);
+    expect(comparisonFor('OCT_ADT_FARE')).toMatchObject({ directFare: null, bestSplitFare: 14, bestSplitStationId: '3', saving: 0 });
+  });
+});
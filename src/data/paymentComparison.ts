@@ -0,0 +1,69 @@
+// Payment method comparison
+// For one origin/destination pair, the direct fare and best single split under every
+// payment method, found in a single pass over the candidate split stations so a
+// mixed group can see all fare types at once.
+
+import { getFare, getStationIdList, PAYMENT_METHODS, PaymentMethod } from './fareService';
+import { applyFareRules, getFareRulesFor, AppliedFareRule, FareRule } from './fareRules';
+
+export interface PaymentMethodComparison {
+  paymentMethod: PaymentMethod;
+  directFare: number | null; // Null when the CSV has no fare for this method
+  bestSplitFare: number | null; // Cheapest single split, after fare rules
+  bestSplitStationId: string | null;
+  saving: number; // Direct fare minus the best split fare, 0 when splitting doesn't help
+  appliedRules: AppliedFareRule[]; // Fare rules that adjusted the best split fare
+}
+
+// Function to compare every payment method for one journey
+export function comparePaymentMethods(
+  startStationId: string,
+  destStationId: string
+): PaymentMethodComparison[] {
+  const rulesByMethod = new Map<PaymentMethod, FareRule[]>(
+    PAYMENT_METHODS.map(method => [method, getFareRulesFor(method)])
+  );
+  const comparisons = PAYMENT_METHODS.map((paymentMethod): PaymentMethodComparison => ({
+    paymentMethod,
+    directFare: getFare(startStationId, destStationId, paymentMethod) ?? null,
+    bestSplitFare: null,
+    bestSplitStationId: null,
+    saving: 0,
+    appliedRules: [],
+  }));
+
+  getStationIdList().forEach(intermediateStationId => {
+    if (intermediateStationId === startStationId || intermediateStationId === destStationId) return;
+
+    comparisons.forEach(comparison => {
+      const method = comparison.paymentMethod;
+      const fare1 = getFare(startStationId, intermediateStationId, method);
+      const fare2 = getFare(intermediateStationId, destStationId, method);
+      if (fare1 === undefined || fare2 === undefined) return;
+
+      // Skip the rules engine when no rule applies to this method
+      const rules = rulesByMethod.get(method)!;
+      const { totalFare, appliedRules } = rules.length === 0
+        ? { totalFare: fare1 + fare2, appliedRules: [] }
+        : applyFareRules([
+          { fromStationId: startStationId, toStationId: intermediateStationId, fare: fare1 },
+          { fromStationId: intermediateStationId, toStationId: destStationId, fare: fare2 },
+        ], method, rules);
+
+      if (totalFare < (comparison.bestSplitFare ?? Infinity)) {
+        comparison.bestSplitFare = totalFare;
+        comparison.bestSplitStationId = intermediateStationId;
+        comparison.appliedRules = appliedRules;
+      }
+    });
+  });
+
+  comparisons.forEach(comparison => {
+    if (comparison.directFare !== null && comparison.bestSplitFare !== null) {
+      const saving = comparison.directFare - comparison.bestSplitFare;
+      comparison.saving = saving > 0.01 ? saving : 0;
+    }
+  });
+
+  return comparisons;
+}
@@ -0,0 +1,55 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import { estimateJourney } from './journeyTime';
+import { EMPTY_STATION_DATASET, setStationDataset } from './mtrLines';
+import { countDetourStops, countPathStops, getRouteCorridor } from './routeCorridor';
+
+// Lines from lines_and_stations.csv, see __fixtures__/fixtures.ts
+beforeAll(async () => {
+  setStationDataset(await loadFixtureStations(await loadFixtureFares()));
+});
+
+afterAll(() => setStationDataset(EMPTY_STATION_DATASET));
+
+// Function to get the network paths of a journey through the given stations
+const legPathsOf = (stationIds: string[]) => estimateJourney(stationIds)!.legPaths;
+
+describe('getRouteCorridor', () => {
+  test('holds the stations on the direct path', () => {
+    expect(getRouteCorridor('1', '3', 0)).toEqual(new Map([['1', 0], ['2', 0], ['3', 0]]));
+  });
+
+  test('widens to stations the given number of stops off the path', () => {
+    expect(getRouteCorridor('1', '3', 1)).toEqual(new Map([['1', 0], ['2', 0], ['3', 0], ['4', 1]]));
+    expect(getRouteCorridor('1', '2', 1)?.get('3')).toBe(1);
+    expect(getRouteCorridor('1', '2', 1)?.has('4')).toBe(false);
+  });
+
+  test('is null when a station is off the network', () => {
+    expect(getRouteCorridor('1', '99', 3)).toBeNull();
+  });
+});
+
+describe('countPathStops', () => {
+  test('counts the stops on every line ridden', () => {
+    expect(countPathStops(legPathsOf(['1', '4'])[0])).toBe(3);
+  });
+
+  test('leaves out walking links', () => {
+    expect(countPathStops({
+      stationIds: ['1', '2', '3'],
+      segments: [{ lineId: 'ISL', stationIds: ['1', '2'] }, { lineId: null, stationIds: ['2', '3'] }],
+      minutes: 8,
+    })).toBe(1);
+  });
+});
+
+describe('countDetourStops', () => {
+  test('is zero for a split on the direct path', () => {
+    expect(countDetourStops(legPathsOf(['1', '2', '4']), legPathsOf(['1', '4'])[0])).toBe(0);
+  });
+
+  test('counts the stops ridden beyond the direct path', () => {
+    // Out to Delta and back to Charlie rides four stops instead of two
+    expect(countDetourStops(legPathsOf(['1', '4', '3']), legPathsOf(['1', '3'])[0])).toBe(2);
+  });
+});
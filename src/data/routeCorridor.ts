@@ -0,0 +1,57 @@
+// "On my way" route corridor
+// The stations a traveller passes anyway on the direct journey, optionally widened
+// to those a few stops off it. Limiting split stations to the corridor keeps
+// suggestions that don't send the traveller across the network for a cheaper fare.
+
+import { getNetworkAdjacency, NetworkPath } from './networkGraph';
+import { estimateJourney } from './journeyTime';
+
+export const MAX_CORRIDOR_STOPS = 3;
+
+// Number of stops ridden on a path; walking links don't count
+export function countPathStops(path: NetworkPath): number {
+  return path.segments
+    .filter(segment => segment.lineId !== null)
+    .reduce((total, segment) => total + segment.stationIds.length - 1, 0);
+}
+
+// Function to find the stations within maxStops of the direct path between two stations.
+// Returns each station with its distance in stops (0 = on the path), or null when
+// either station is not on the network.
+export function getRouteCorridor(
+  startStationId: string,
+  destStationId: string,
+  maxStops: number
+): Map<string, number> | null {
+  const direct = estimateJourney([startStationId, destStationId]);
+  if (!direct) {
+    return null;
+  }
+
+  // Breadth-first search outwards from every station on the path
+  const graph = getNetworkAdjacency();
+  const corridor = new Map<string, number>();
+  let frontier = direct.legPaths[0].stationIds;
+  frontier.forEach(stationId => corridor.set(stationId, 0));
+
+  for (let stops = 1; stops <= maxStops; stops++) {
+    const nextFrontier: string[] = [];
+    frontier.forEach(stationId => {
+      graph.get(stationId)?.forEach(edge => {
+        if (!corridor.has(edge.toStationId)) {
+          corridor.set(edge.toStationId, stops);
+          nextFrontier.push(edge.toStationId);
+        }
+      });
+    });
+    frontier = nextFrontier;
+  }
+
+  return corridor;
+}
+
+// Function to count the extra stops a route rides compared with the direct path (0 = none)
+export function countDetourStops(legPaths: NetworkPath[], directPath: NetworkPath): number {
+  const routeStops = legPaths.reduce((total, path) => total + countPathStops(path), 0);
+  return Math.max(0, routeStops - countPathStops(directPath));
+}
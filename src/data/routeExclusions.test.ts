@@ -0,0 +1,92 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import { fareLookupFor, FareDataset, getStationIdList } from './fareService';
+import { setStationDataset } from './mtrLines';
+import { optimizeRoute } from './optimizer';
+import {
+  allowedExitStations,
+  allowedLegs,
+  isExitAllowed,
+  NO_EXCLUSIONS,
+  resolveExclusions,
+  sanitizeExclusions,
+} from './routeExclusions';
+
+// Lines from lines_airport_tung_chung.csv, see __fixtures__/fixtures.ts
+let fares: FareDataset;
+
+beforeAll(async () => {
+  fares = await loadFixtureFares();
+  setStationDataset(await loadFixtureStations(fares, 'lines_airport_tung_chung.csv'));
+});
+
+describe('allowedExitStations', () => {
+  test('excludes nothing by default', () => {
+    expect(allowedExitStations(NO_EXCLUSIONS, getStationIdList(fares))).toBeUndefined();
+  });
+
+  test('drops listed stations', () => {
+    const allowed = allowedExitStations({ ...NO_EXCLUSIONS, stationIds: ['3'] }, getStationIdList(fares));
+    expect(Array.from(allowed!)).toEqual(['1', '2', '4']);
+  });
+
+  test('drops stations served only by avoided lines, keeping interchanges', () => {
+    const exclusions = { ...NO_EXCLUSIONS, lineIds: ['AEL'] };
+    expect(Array.from(allowedExitStations(exclusions, getStationIdList(fares))!)).toEqual(['2', '3', '4']);
+    expect(isExitAllowed('1', exclusions)).toBe(false);
+    expect(isExitAllowed('4', { ...NO_EXCLUSIONS, lineIds: ['AEL', 'TCL'] })).toBe(true);
+  });
+
+  test('keeps the optimizer off excluded exits', () => {
+    const stationIds = getStationIdList(fares);
+    const routes = optimizeRoute('1', '4', 'OCT_ADT_FARE', {
+      lookup: fareLookupFor(fares),
+      stationIds,
+      exitStationIds: allowedExitStations({ ...NO_EXCLUSIONS, stationIds: ['3'] }, stationIds),
+    });
+
+    expect(routes.map(route => route.stationIds)).toEqual([['1', '2', '4'], ['1', '4']]);
+  });
+});
+
+describe('allowedLegs', () => {
+  test('allows every leg unless a line is avoided', () => {
+    expect(allowedLegs({ ...NO_EXCLUSIONS, stationIds: ['3'] })).toBeUndefined();
+  });
+
+  test('drops legs whose quickest path rides an avoided line', () => {
+    const isLegAllowed = allowedLegs({ ...NO_EXCLUSIONS, presetIds: ['no-airport-express'] })!;
+
+    expect(isLegAllowed('1', '2')).toBe(false);
+    expect(isLegAllowed('3', '1')).toBe(false);
+    expect(isLegAllowed('2', '3')).toBe(true);
+    // Delta has no line data, so its legs have no known path
+    expect(isLegAllowed('1', '4')).toBe(true);
+  });
+
+  test('keeps the optimizer\'s splits off avoided lines, but not the direct route', () => {
+    const options = { lookup: fareLookupFor(fares), stationIds: getStationIdList(fares) };
+    const isLegAllowed = allowedLegs({ ...NO_EXCLUSIONS, lineIds: ['AEL'] });
+
+    expect(optimizeRoute('1', '4', 'OCT_ADT_FARE', { ...options, isLegAllowed }).map(route => route.stationIds))
+      .toEqual([['1', '4']]);
+    expect(optimizeRoute('2', '4', 'OCT_ADT_FARE', { ...options, isLegAllowed }).map(route => route.stationIds))
+      .toEqual([['2', '3', '4'], ['2', '4']]);
+  });
+});
+
+describe('resolveExclusions', () => {
+  test('adds the stations and lines of the chosen presets', () => {
+    const resolved = resolveExclusions({ presetIds: ['no-border-stations', 'no-airport-express'], stationIds: ['3'], lineIds: [] });
+    expect(Array.from(resolved.stationIds).sort()).toEqual(['3', '76', '78']);
+    expect(Array.from(resolved.lineIds)).toEqual(['AEL']);
+  });
+});
+
+describe('sanitizeExclusions', () => {
+  test('drops unknown presets, non-string entries and duplicates', () => {
+    expect(sanitizeExclusions({ presetIds: ['no-racecourse', 'no-such-preset'], stationIds: ['1', 1, '1'], lineIds: 'AEL' }))
+      .toEqual({ presetIds: ['no-racecourse'], stationIds: ['1'], lineIds: [] });
+    expect(sanitizeExclusions(undefined)).toEqual(NO_EXCLUSIONS);
+    expect(sanitizeExclusions('AEL')).toEqual(NO_EXCLUSIONS);
+  });
+});
@@ -0,0 +1,120 @@
+// Route exclusions
+// Stations the optimizer must not use as exits: listed directly, covered by lines to
+// avoid, or taken from the built-in presets in exclusionPresets.json (border stations,
+// the Airport Express, ...). Split legs whose quickest path rides an avoided line are
+// left out too. The start and destination of a journey are never excluded.
+
+import { LocalizedName } from './fareRules';
+import { JOURNEY_PATH_COSTS } from './journeyTime';
+import { isLightRailStop, LIGHT_RAIL_LINE } from './lightRail';
+import { getLinesForStation } from './mtrLines';
+import { findNetworkPathsFrom } from './networkGraph';
+import exclusionPresets from './exclusionPresets.json';
+
+export interface RouteExclusions {
+  presetIds: string[];
+  stationIds: string[]; // Never exit at these stations
+  lineIds: string[]; // Avoid these lines, e.g. AEL
+}
+
+export interface ExclusionPreset {
+  id: string;
+  name: LocalizedName;
+  stationIds?: string[];
+  lineIds?: string[];
+}
+
+export interface ExclusionPresetCatalogue {
+  presets: ExclusionPreset[];
+}
+
+export const NO_EXCLUSIONS: RouteExclusions = { presetIds: [], stationIds: [], lineIds: [] };
+
+const presets = (exclusionPresets as ExclusionPresetCatalogue).presets;
+
+// Function to get the presets from exclusionPresets.json
+export function getExclusionPresets(): ExclusionPreset[] {
+  return presets;
+}
+
+// Function to check whether anything is excluded
+export function isExclusionActive(exclusions: RouteExclusions): boolean {
+  return exclusions.presetIds.length > 0 || exclusions.stationIds.length > 0 || exclusions.lineIds.length > 0;
+}
+
+// Function to merge the chosen presets with the individually excluded stations and lines
+export function resolveExclusions(exclusions: RouteExclusions): { stationIds: Set<string>; lineIds: Set<string> } {
+  const stationIds = new Set(exclusions.stationIds);
+  const lineIds = new Set(exclusions.lineIds);
+  presets
+    .filter(preset => exclusions.presetIds.includes(preset.id))
+    .forEach(preset => {
+      preset.stationIds?.forEach(stationId => stationIds.add(stationId));
+      preset.lineIds?.forEach(lineId => lineIds.add(lineId));
+    });
+  return { stationIds, lineIds };
+}
+
+// Line IDs serving a station; Light Rail stops count as one "LR" line
+const stationLineIds = (stationId: string): string[] =>
+  isLightRailStop(stationId)
+    ? [LIGHT_RAIL_LINE.id]
+    : getLinesForStation(stationId).map(line => line.id);
+
+type ResolvedExclusions = ReturnType<typeof resolveExclusions>;
+
+// A station on an avoided line is still allowed if another line serves it
+// (Hong Kong is on the Tung Chung Line as well as the Airport Express);
+// stations without line data are only excluded by ID
+const isAllowed = (stationId: string, resolved: ResolvedExclusions): boolean => {
+  if (resolved.stationIds.has(stationId)) return false;
+  const lineIds = stationLineIds(stationId);
+  return lineIds.length === 0 || lineIds.some(lineId => !resolved.lineIds.has(lineId));
+};
+
+// Function to check whether a station may be used as an exit
+export function isExitAllowed(stationId: string, exclusions: RouteExclusions): boolean {
+  return isAllowed(stationId, resolveExclusions(exclusions));
+}
+
+// Function to get the stations that may be used as exits, as the optimizer's exitStationIds.
+// Undefined when nothing is excluded, so the optimizer considers every station.
+export function allowedExitStations(exclusions: RouteExclusions, stationIds: readonly string[]): Set<string> | undefined {
+  if (!isExclusionActive(exclusions)) return undefined;
+  const resolved = resolveExclusions(exclusions);
+  return new Set(stationIds.filter(stationId => isAllowed(stationId, resolved)));
+}
+
+// Function to get the legs a split may ride, as the optimizer's isLegAllowed: those whose
+// quickest path (the one shown with the results) rides no avoided line. Legs off the
+// network are allowed. Undefined when no line is avoided.
+export function allowedLegs(exclusions: RouteExclusions): ((fromStationId: string, toStationId: string) => boolean) | undefined {
+  const { lineIds } = resolveExclusions(exclusions);
+  if (lineIds.size === 0) return undefined;
+
+  // Lines ridden to every destination, found once per origin
+  const linesFrom = new Map<string, Map<string, string[]>>();
+  return (fromStationId, toStationId) => {
+    if (!linesFrom.has(fromStationId)) {
+      const lines = new Map<string, string[]>();
+      findNetworkPathsFrom(fromStationId, JOURNEY_PATH_COSTS).forEach((path, stationId) => {
+        lines.set(stationId, path.segments.flatMap(segment => (segment.lineId === null ? [] : [segment.lineId])));
+      });
+      linesFrom.set(fromStationId, lines);
+    }
+    const ridden = linesFrom.get(fromStationId)!.get(toStationId) ?? [];
+    return ridden.every(lineId => !lineIds.has(lineId));
+  };
+}
+
+// Function to keep only well-formed exclusions, e.g. when read back from storage
+export function sanitizeExclusions(value: unknown): RouteExclusions {
+  const record: Record<string, unknown> = typeof value === 'object' && value !== null ? { ...value } : {};
+  const strings = (list: unknown): string[] =>
+    Array.isArray(list) ? Array.from(new Set(list.filter((item): item is string => typeof item === 'string'))) : [];
+  return {
+    presetIds: strings(record.presetIds).filter(presetId => presets.some(preset => preset.id === presetId)),
+    stationIds: strings(record.stationIds),
+    lineIds: strings(record.lineIds),
+  };
+}
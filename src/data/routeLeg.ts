@@ -0,0 +1,10 @@
+// Route legs
+// A leg is one paid journey between two exits. The optimizer builds chains of legs
+// from the fare matrix and the fare rules engine prices them, so the type lives here
+// rather than in either module.
+
+export interface RouteLeg {
+  fromStationId: string;
+  toStationId: string;
+  fare: number;
+}
@@ -0,0 +1,86 @@
+// All-pairs savings calculation
+// Finds, for every origin/destination pair, the cheapest single split with the route
+// optimizer and keeps it when it beats the direct fare. Free of React so it can run
+// in a worker. Split fares include the configured fare rules.
+
+import { fareLookupFor, FareLookup, PaymentMethod } from './fareService';
+import { AppliedFareRule } from './fareRules';
+import { optimizeRoute, OptimizeOptions } from './optimizer';
+
+export interface SavingInfo {
+  startStationId: string;
+  startStationName: string;
+  destStationId: string;
+  destStationName: string;
+  intermediateStationId: string;
+  intermediateStationName: string;
+  directFare: number;
+  intermediateFare: number;
+  saving: number;
+  appliedRules: AppliedFareRule[]; // Fare rules that adjusted the split fare
+}
+
+// Fares and names from the dataset loaded by fareService
+const loadedFareLookup = fareLookupFor();
+
+// Function to calculate the savings for every destination from one origin.
+// exitStationIds and isLegAllowed, when given, limit which stations may be used as
+// the split and which legs it may ride.
+export function calculateSavingsFromStation(
+  startStationId: string,
+  stationIdList: string[],
+  paymentMethod: PaymentMethod,
+  lookup: FareLookup = loadedFareLookup,
+  exitStationIds?: Set<string>,
+  isLegAllowed?: OptimizeOptions['isLegAllowed']
+): SavingInfo[] {
+  const { getFare, getStationName } = lookup;
+  const calculatedSavings: SavingInfo[] = [];
+
+  for (const destStationId of stationIdList) {
+    if (destStationId === startStationId) continue;
+
+    const [bestRoute] = optimizeRoute(startStationId, destStationId, paymentMethod, {
+      maxSplits: 1,
+      maxResults: 1,
+      stationIds: stationIdList,
+      exitStationIds,
+      isLegAllowed,
+      lookup,
+    });
+    const directFare = getFare(startStationId, destStationId, paymentMethod);
+    if (!bestRoute || bestRoute.isDirect || directFare === undefined) {
+      continue;
+    }
+
+    const saving = directFare - bestRoute.totalFare;
+    if (saving > 0.01) {
+      const [intermediateStationId] = bestRoute.exitStationIds;
+      calculatedSavings.push({
+        startStationId,
+        startStationName: getStationName(startStationId) || `ID: ${startStationId}`,
+        destStationId,
+        destStationName: getStationName(destStationId) || `ID: ${destStationId}`,
+        intermediateStationId,
+        intermediateStationName: getStationName(intermediateStationId) || `ID: ${intermediateStationId}`,
+        directFare,
+        intermediateFare: bestRoute.totalFare,
+        saving,
+        appliedRules: bestRoute.appliedRules,
+      });
+    }
+  }
+
+  return calculatedSavings;
+}
+
+// Function to calculate the savings for every origin/destination pair
+export function calculateAllSavings(
+  stationIdList: string[],
+  paymentMethod: PaymentMethod,
+  lookup: FareLookup = loadedFareLookup
+): SavingInfo[] {
+  return stationIdList.flatMap(startStationId =>
+    calculateSavingsFromStation(startStationId, stationIdList, paymentMethod, lookup)
+  );
+}
@@ -0,0 +1,104 @@
+import { SavingInfo } from './savingsCalculator';
+import { exportSavings, ExportLabels, ExportOptions } from './savingsExport';
+
+const LABELS: ExportLabels = {
+  title: 'Savings',
+  paymentMethod: 'Payment',
+  datasetDate: 'Fares updated',
+  datasetHash: 'Fare data',
+  generatedAt: 'Generated',
+  routeCount: 'Routes',
+  unknown: 'unknown',
+  from: 'From',
+  to: 'To',
+  via: 'Via',
+  directFare: 'Direct',
+  splitFare: 'Split',
+  saving: 'Saving',
+  savingPercent: 'Saving %',
+};
+
+// Names with a comma and a pipe, to check the CSV and Markdown escaping
+const NAMES: Record<string, string> = { '1': 'Alpha, West', '3': 'Charlie', '4': 'Delta|East' };
+
+const OPTIONS: ExportOptions = {
+  metadata: {
+    paymentMethod: 'OCT_ADT_FARE',
+    paymentMethodLabel: 'Adult Octopus',
+    datasetDate: null,
+    datasetHash: 'abc123',
+    generatedAt: '2025-01-02T03:04:05.000Z',
+    routeCount: 1,
+  },
+  labels: LABELS,
+  stationName: stationId => NAMES[stationId],
+};
+
+const SAVINGS: SavingInfo[] = [{
+  startStationId: '1',
+  startStationName: 'Alpha',
+  destStationId: '4',
+  destStationName: 'Delta',
+  intermediateStationId: '3',
+  intermediateStationName: 'Charlie',
+  directFare: 20,
+  intermediateFare: 14,
+  saving: 6,
+  appliedRules: [{ ruleId: 'discount', name: { en: 'Rule', 'zh-Hant': '規則' }, adjustment: -0.5 }],
+}];
+
+describe('exportSavings', () => {
+  test('writes CSV with the metadata as comment lines', () => {
+    expect(exportSavings(SAVINGS, 'csv', OPTIONS)).toBe([
+      '# Savings',
+      '# Payment: Adult Octopus (OCT_ADT_FARE)',
+      '# Fares updated: unknown',
+      '# Fare data: abc123',
+      '# Generated: 2025-01-02T03:04:05.000Z',
+      '# Routes: 1',
+      'From,To,Via,Direct,Split,Saving,Saving %',
+      '"Alpha, West",Delta|East,Charlie,20.00,14.00,6.00,30.0',
+      '',
+    ].join('\n'));
+  });
+
+  test('writes JSON with station IDs, names and the applied rules', () => {
+    expect(JSON.parse(exportSavings(SAVINGS, 'json', OPTIONS))).toEqual({
+      metadata: OPTIONS.metadata,
+      routes: [{
+        from: { id: '1', name: 'Alpha, West' },
+        to: { id: '4', name: 'Delta|East' },
+        via: { id: '3', name: 'Charlie' },
+        directFare: 20,
+        splitFare: 14,
+        saving: 6,
+        savingPercent: 30,
+        appliedRules: [{ ruleId: 'discount', adjustment: -0.5 }],
+      }],
+    });
+  });
+
+  test('writes a Markdown table with right-aligned amounts', () => {
+    const options = { ...OPTIONS, metadata: { ...OPTIONS.metadata, datasetDate: 'Mon, 06 Jan 2025' } };
+
+    expect(exportSavings(SAVINGS, 'markdown', options)).toBe([
+      '## Savings',
+      '',
+      '- **Payment:** Adult Octopus (OCT_ADT_FARE)',
+      '- **Fares updated:** Mon, 06 Jan 2025',
+      '- **Fare data:** abc123',
+      '- **Generated:** 2025-01-02T03:04:05.000Z',
+      '- **Routes:** 1',
+      '',
+      '| From | To | Via | Direct | Split | Saving | Saving % |',
+      '| --- | --- | --- | ---: | ---: | ---: | ---: |',
+      '| Alpha, West | Delta\\|East | Charlie | 20.00 | 14.00 | 6.00 | 30.0 |',
+      '',
+    ].join('\n'));
+  });
+
+  test('writes only the header when there are no routes', () => {
+    expect(exportSavings([], 'csv', OPTIONS).trim().split('\n').pop()).toBe('From,To,Via,Direct,Split,Saving,Saving %');
+    expect(JSON.parse(exportSavings([], 'json', OPTIONS)).routes).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+// Savings export
+// Turns a list of savings into CSV, JSON or a Markdown table for pasting into
+// reports. Station names and column headings are passed in already localized,
+// so the output matches the language the page is shown in.
+
+import Papa from 'papaparse';
+import { PaymentMethod } from './fareService';
+import { SavingInfo } from './savingsCalculator';
+import { savingPercent } from './savingsFilter';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'markdown'];
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+export interface ExportMetadata {
+  paymentMethod: PaymentMethod;
+  paymentMethodLabel: string; // Localized
+  datasetDate: string | null; // When the fare CSV was last modified, if known
+  datasetHash: string; // Fingerprint of the fare CSV
+  generatedAt: string; // ISO 8601
+  routeCount: number;
+}
+
+// Localized text for the metadata header and the columns
+export interface ExportLabels {
+  title: string;
+  paymentMethod: string;
+  datasetDate: string;
+  datasetHash: string;
+  generatedAt: string;
+  routeCount: string;
+  unknown: string;
+  from: string;
+  to: string;
+  via: string;
+  directFare: string;
+  splitFare: string;
+  saving: string;
+  savingPercent: string;
+}
+
+export interface ExportOptions {
+  metadata: ExportMetadata;
+  labels: ExportLabels;
+  stationName: (stationId: string) => string;
+}
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+// Metadata as label/value pairs, in the order they are written
+function metadataEntries({ metadata, labels }: ExportOptions): [string, string][] {
+  return [
+    [labels.paymentMethod, `${metadata.paymentMethodLabel} (${metadata.paymentMethod})`],
+    [labels.datasetDate, metadata.datasetDate ?? labels.unknown],
+    [labels.datasetHash, metadata.datasetHash || labels.unknown],
+    [labels.generatedAt, metadata.generatedAt],
+    [labels.routeCount, String(metadata.routeCount)],
+  ];
+}
+
+// One row of column values per saving, in table order
+function tableRows(savings: SavingInfo[], { stationName }: ExportOptions): string[][] {
+  return savings.map(saving => [
+    stationName(saving.startStationId),
+    stationName(saving.destStationId),
+    stationName(saving.intermediateStationId),
+    formatAmount(saving.directFare),
+    formatAmount(saving.intermediateFare),
+    formatAmount(saving.saving),
+    savingPercent(saving).toFixed(1),
+  ]);
+}
+
+function tableHeader({ labels }: ExportOptions): string[] {
+  return [labels.from, labels.to, labels.via, labels.directFare, labels.splitFare, labels.saving, labels.savingPercent];
+}
+
+// CSV with the metadata as leading "#" comment lines
+function toCsv(savings: SavingInfo[], options: ExportOptions): string {
+  const header = [options.labels.title, ...metadataEntries(options).map(([label, value]) => `${label}: ${value}`)]
+    .map(line => `# ${line}`)
+    .join('\n');
+  const table = Papa.unparse(
+    { fields: tableHeader(options), data: tableRows(savings, options) },
+    { newline: '\n' }
+  );
+  return `${header}\n${table}\n`;
+}
+
+function toJson(savings: SavingInfo[], { metadata, stationName }: ExportOptions): string {
+  const station = (stationId: string) => ({ id: stationId, name: stationName(stationId) });
+  return JSON.stringify({
+    metadata,
+    routes: savings.map(saving => ({
+      from: station(saving.startStationId),
+      to: station(saving.destStationId),
+      via: station(saving.intermediateStationId),
+      directFare: saving.directFare,
+      splitFare: saving.intermediateFare,
+      saving: Number(formatAmount(saving.saving)),
+      savingPercent: Number(savingPercent(saving).toFixed(1)),
+      appliedRules: saving.appliedRules.map(rule => ({ ruleId: rule.ruleId, adjustment: rule.adjustment })),
+    })),
+  }, null, 2) + '\n';
+}
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, '\\|');
+
+function toMarkdown(savings: SavingInfo[], options: ExportOptions): string {
+  const header = tableHeader(options);
+  const alignments = header.map((_, index) => (index < 3 ? '---' : '---:'));
+  const row = (cells: string[]) => `| ${cells.map(escapeMarkdown).join(' | ')} |`;
+  return [
+    `## ${escapeMarkdown(options.labels.title)}`,
+    '',
+    ...metadataEntries(options).map(([label, value]) => `- **${label}:** ${escapeMarkdown(value)}`),
+    '',
+    row(header),
+    `| ${alignments.join(' | ')} |`,
+    ...tableRows(savings, options).map(row),
+    '',
+  ].join('\n');
+}
+
+// Function to export savings in the given format
+export function exportSavings(savings: SavingInfo[], format: ExportFormat, options: ExportOptions): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(savings, options);
+    case 'json':
+      return toJson(savings, options);
+    case 'markdown':
+      return toMarkdown(savings, options);
+  }
+}
@@ -0,0 +1,81 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import { EMPTY_STATION_DATASET, setStationDataset } from './mtrLines';
+import { SavingInfo } from './savingsCalculator';
+import { DEFAULT_SAVINGS_FILTER, filterSavings, isSavingsFilterActive, SavingsFilter, savingPercent } from './savingsFilter';
+
+// Stations and lines from lines_and_stations.csv, see __fixtures__/fixtures.ts
+beforeAll(async () => {
+  setStationDataset(await loadFixtureStations(await loadFixtureFares()));
+});
+
+afterAll(() => setStationDataset(EMPTY_STATION_DATASET));
+
+const NAMES: Record<string, string> = { '1': 'Alpha', '2': 'Bravo', '3': 'Charlie', '4': 'Delta' };
+
+const savingOf = (startStationId: string, intermediateStationId: string, destStationId: string, directFare: number, saving: number): SavingInfo => ({
+  startStationId,
+  startStationName: NAMES[startStationId],
+  destStationId,
+  destStationName: NAMES[destStationId],
+  intermediateStationId,
+  intermediateStationName: NAMES[intermediateStationId],
+  directFare,
+  intermediateFare: directFare - saving,
+  saving,
+  appliedRules: [],
+});
+
+// The adult Octopus savings of the fixture fares
+const SAVINGS = [savingOf('1', '3', '4', 20, 6), savingOf('2', '3', '4', 10, 3), savingOf('1', '2', '3', 8, 2)];
+
+// Function to filter the fixture savings and list their routes
+const routesFor = (filter: Partial<SavingsFilter>) =>
+  filterSavings(SAVINGS, { ...DEFAULT_SAVINGS_FILTER, ...filter })
+    .map(saving => `${saving.startStationId}-${saving.intermediateStationId}-${saving.destStationId}`);
+
+describe('filterSavings', () => {
+  test('keeps every route with the default filter', () => {
+    expect(routesFor({})).toEqual(['1-3-4', '2-3-4', '1-2-3']);
+  });
+
+  test('filters by the lines serving the origin and destination', () => {
+    expect(routesFor({ originLineId: 'ISL' })).toEqual(['1-3-4', '2-3-4', '1-2-3']);
+    expect(routesFor({ destLineId: 'TML' })).toEqual(['1-2-3']);
+    expect(routesFor({ destLineId: 'ISL' })).toEqual([]);
+  });
+
+  test('matches a station in the chosen role', () => {
+    expect(routesFor({ stationId: '2' })).toEqual(['2-3-4', '1-2-3']);
+    expect(routesFor({ stationId: '2', stationRole: 'origin' })).toEqual(['2-3-4']);
+    expect(routesFor({ stationId: '3', stationRole: 'destination' })).toEqual(['1-2-3']);
+    expect(routesFor({ stationId: '3', stationRole: 'via' })).toEqual(['1-3-4', '2-3-4']);
+  });
+
+  test('drops routes below the minimum saving in dollars or percent', () => {
+    expect(routesFor({ minSaving: 3 })).toEqual(['1-3-4', '2-3-4']);
+    expect(routesFor({ minSavingPercent: 30 })).toEqual(['1-3-4', '2-3-4']);
+    expect(routesFor({ minSaving: 4, minSavingPercent: 30 })).toEqual(['1-3-4']);
+  });
+
+  test('needs every word of the text to match a station name or code', () => {
+    expect(routesFor({ text: 'bravo' })).toEqual(['2-3-4', '1-2-3']);
+    expect(routesFor({ text: '  DEL  alpha ' })).toEqual(['1-3-4']);
+    expect(routesFor({ text: '布拉沃' })).toEqual(['2-3-4', '1-2-3']);
+    expect(routesFor({ text: 'alpha echo' })).toEqual([]);
+  });
+});
+
+describe('isSavingsFilterActive', () => {
+  test('is active once any filter differs from the defaults', () => {
+    expect(isSavingsFilterActive(DEFAULT_SAVINGS_FILTER)).toBe(false);
+    expect(isSavingsFilterActive({ ...DEFAULT_SAVINGS_FILTER, stationRole: 'via' })).toBe(true);
+    expect(isSavingsFilterActive({ ...DEFAULT_SAVINGS_FILTER, minSaving: 0 })).toBe(true);
+  });
+});
+
+describe('savingPercent', () => {
+  test('is the share of the direct fare saved', () => {
+    expect(savingPercent(SAVINGS[2])).toBe(25);
+    expect(savingPercent(savingOf('1', '2', '3', 0, 0))).toBe(0);
+  });
+});
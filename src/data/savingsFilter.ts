@@ -0,0 +1,98 @@
+// Savings table filters
+// Narrows the all-pairs savings list by line, by a station in a given role, by
+// minimum saving (in dollars or as a share of the direct fare) and by free text
+// matched against station names in English and Chinese and station codes.
+
+import { getLinesForStation } from './mtrLines';
+import { SavingInfo } from './savingsCalculator';
+import { getStationById } from './stationRegistry';
+
+// Which part of the route the station filter looks at
+export type StationRole = 'any' | 'origin' | 'destination' | 'via';
+
+export interface SavingsFilter {
+  originLineId: string | null;
+  destLineId: string | null;
+  stationId: string | null;
+  stationRole: StationRole;
+  minSaving: number | null; // Dollars
+  minSavingPercent: number | null; // Percent of the direct fare
+  text: string;
+}
+
+export const DEFAULT_SAVINGS_FILTER: SavingsFilter = {
+  originLineId: null,
+  destLineId: null,
+  stationId: null,
+  stationRole: 'any',
+  minSaving: null,
+  minSavingPercent: null,
+  text: '',
+};
+
+// Function to check whether any filter differs from the defaults
+export function isSavingsFilterActive(filter: SavingsFilter): boolean {
+  return (Object.keys(DEFAULT_SAVINGS_FILTER) as (keyof SavingsFilter)[])
+    .some(key => filter[key] !== DEFAULT_SAVINGS_FILTER[key]);
+}
+
+// Function to get the saving as a percentage of the direct fare
+export function savingPercent(saving: SavingInfo): number {
+  return saving.directFare > 0 ? (saving.saving / saving.directFare) * 100 : 0;
+}
+
+const servesLine = (stationId: string, lineId: string) =>
+  getLinesForStation(stationId).some(line => line.id === lineId);
+
+// Lower-cased names and code of a station, for text search
+const searchableText = (stationId: string, csvName: string) => {
+  const station = getStationById(stationId);
+  return [csvName, station?.nameEn, station?.nameZh, station?.code]
+    .filter((value): value is string => Boolean(value))
+    .join(' ')
+    .toLowerCase();
+};
+
+// Function to apply the filters; every word of the text must match one of the three stations
+export function filterSavings(savings: SavingInfo[], filter: SavingsFilter): SavingInfo[] {
+  const words = filter.text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const textCache = new Map<string, string>();
+  const textFor = (stationId: string, csvName: string) => {
+    if (!textCache.has(stationId)) {
+      textCache.set(stationId, searchableText(stationId, csvName));
+    }
+    return textCache.get(stationId)!;
+  };
+
+  return savings.filter(saving => {
+    if (filter.originLineId && !servesLine(saving.startStationId, filter.originLineId)) return false;
+    if (filter.destLineId && !servesLine(saving.destStationId, filter.destLineId)) return false;
+
+    if (filter.stationId) {
+      const matchesOrigin = saving.startStationId === filter.stationId;
+      const matchesDest = saving.destStationId === filter.stationId;
+      const matchesVia = saving.intermediateStationId === filter.stationId;
+      const matches = {
+        any: matchesOrigin || matchesDest || matchesVia,
+        origin: matchesOrigin,
+        destination: matchesDest,
+        via: matchesVia,
+      }[filter.stationRole];
+      if (!matches) return false;
+    }
+
+    if (filter.minSaving !== null && saving.saving < filter.minSaving) return false;
+    if (filter.minSavingPercent !== null && savingPercent(saving) < filter.minSavingPercent) return false;
+
+    if (words.length > 0) {
+      const text = [
+        textFor(saving.startStationId, saving.startStationName),
+        textFor(saving.destStationId, saving.destStationName),
+        textFor(saving.intermediateStationId, saving.intermediateStationName),
+      ].join(' ');
+      if (!words.every(word => text.includes(word))) return false;
+    }
+
+    return true;
+  });
+}
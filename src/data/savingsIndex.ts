@@ -0,0 +1,111 @@
+// Precomputed savings index
+// Generated at build time by scripts/build_savings_index.ts and served next to the
+// fare CSV, so the savings page doesn't have to recompute every OD pair per visit.
+
+import { getFare, getFareDataHash, getStationName, PAYMENT_METHODS, PaymentMethod } from './fareService';
+import { calculateAllSavings, SavingInfo } from './savingsCalculator';
+import { applyFareRules, getFareRulesHash } from './fareRules';
+import { getDefaultDataSource } from './dataSource';
+
+export const SAVINGS_INDEX_VERSION = 2;
+export const SAVINGS_INDEX_FILE = 'mtr_savings_index.json';
+
+// Compact row: [startId, destId, intermediateId, directFare, intermediateFare]
+export type SavingsIndexRow = [string, string, string, number, number];
+
+export interface SavingsIndex {
+  version: number;
+  csvHash: string; // Fingerprint of the fare CSV the index was built from
+  rulesHash: string; // Fingerprint of the fare rules the split fares include
+  generatedAt: string;
+  methods: Record<PaymentMethod, SavingsIndexRow[]>;
+}
+
+// Function to build the index for every payment method from the loaded fare data
+export function buildSavingsIndex(stationIdList: string[]): SavingsIndex {
+  const methods = {} as Record<PaymentMethod, SavingsIndexRow[]>;
+  PAYMENT_METHODS.forEach(method => {
+    methods[method] = calculateAllSavings(stationIdList, method).map(saving => [
+      saving.startStationId,
+      saving.destStationId,
+      saving.intermediateStationId,
+      saving.directFare,
+      saving.intermediateFare,
+    ]);
+  });
+
+  return {
+    version: SAVINGS_INDEX_VERSION,
+    csvHash: getFareDataHash(),
+    rulesHash: getFareRulesHash(),
+    generatedAt: new Date().toISOString(),
+    methods,
+  };
+}
+
+// Function to expand compact index rows back into SavingInfo records.
+// Applied fare rules aren't stored, so they are worked out again from the loaded fares.
+export function expandSavingsIndexRows(rows: SavingsIndexRow[], paymentMethod: PaymentMethod): SavingInfo[] {
+  return rows.map(([startStationId, destStationId, intermediateStationId, directFare, intermediateFare]) => {
+    const legFare1 = getFare(startStationId, intermediateStationId, paymentMethod);
+    const legFare2 = getFare(intermediateStationId, destStationId, paymentMethod);
+    const { appliedRules } = legFare1 !== undefined && legFare2 !== undefined
+      ? applyFareRules([
+        { fromStationId: startStationId, toStationId: intermediateStationId, fare: legFare1 },
+        { fromStationId: intermediateStationId, toStationId: destStationId, fare: legFare2 },
+      ], paymentMethod)
+      : { appliedRules: [] };
+
+    return {
+      startStationId,
+      startStationName: getStationName(startStationId) || `ID: ${startStationId}`,
+      destStationId,
+      destStationName: getStationName(destStationId) || `ID: ${destStationId}`,
+      intermediateStationId,
+      intermediateStationName: getStationName(intermediateStationId) || `ID: ${intermediateStationId}`,
+      directFare,
+      intermediateFare,
+      saving: directFare - intermediateFare,
+      appliedRules,
+    };
+  });
+}
+
+let savingsIndex: SavingsIndex | null = null;
+
+// Function to read the static index once per session
+async function readSavingsIndex(): Promise<SavingsIndex> {
+  if (savingsIndex) {
+    return savingsIndex;
+  }
+  const file = await getDefaultDataSource().read(SAVINGS_INDEX_FILE);
+  savingsIndex = JSON.parse(file.text) as SavingsIndex;
+  return savingsIndex;
+}
+
+// Function to load the savings for one payment method from the static index.
+// Resolves to null when the index is missing, from another version or stale
+// compared with the loaded fare CSV or fare rules, so the caller can compute live instead.
+// Fare data must already be loaded.
+export async function loadIndexedSavings(paymentMethod: PaymentMethod): Promise<SavingInfo[] | null> {
+  try {
+    const index = await readSavingsIndex();
+
+    if (
+      index.version !== SAVINGS_INDEX_VERSION ||
+      index.csvHash !== getFareDataHash() ||
+      index.rulesHash !== getFareRulesHash()
+    ) {
+      console.warn('Savings index is stale, falling back to live computation.');
+      return null;
+    }
+
+    const rows = index.methods?.[paymentMethod];
+    return rows ? expandSavingsIndexRows(rows, paymentMethod) : null;
+  } catch (error) {
+    // The index may not have been built, and the dev server answers unknown paths
+    // with index.html, which fails to parse as JSON
+    console.warn('Savings index unavailable, falling back to live computation:', error);
+    return null;
+  }
+}
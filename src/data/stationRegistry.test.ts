@@ -0,0 +1,68 @@
+import { loadFixtureFares, loadFixtureStations } from './__fixtures__/fixtures';
+import { EMPTY_STATION_DATASET } from './mtrLines';
+import {
+  findStation,
+  getRegisteredStations,
+  getStationByCode,
+  getStationById,
+  getStationByName,
+  resolveStationId,
+  setStationRegistry,
+  StationRegistry,
+} from './stationRegistry';
+
+// Stations from lines_airport_express.csv, see __fixtures__/fixtures.ts
+let registry: StationRegistry;
+
+beforeAll(async () => {
+  registry = (await loadFixtureStations(await loadFixtureFares(), 'lines_airport_express.csv')).registry;
+});
+
+describe('buildStationRegistry', () => {
+  test('joins the names, code and lines of each station', () => {
+    expect(getStationById('1', registry)).toEqual({ id: '1', code: 'ALP', nameEn: 'Alpha', nameZh: '阿爾法', lines: ['ISL', 'AEL'] });
+  });
+
+  test('keeps the ID with fares when a station has several', () => {
+    expect(getStationById('91', registry)).toBe(getStationById('1', registry));
+    expect(resolveStationId('91', registry)).toBe('1');
+    expect(getRegisteredStations(registry).filter(station => station.code === 'ALP')).toHaveLength(1);
+  });
+
+  test('adds stations with fares but no line data, and stations with line data but no fares', () => {
+    expect(getStationById('4', registry)).toEqual({ id: '4', code: null, nameEn: 'Delta', nameZh: 'Delta', lines: [] });
+    expect(getStationById('5', registry)).toMatchObject({ code: 'ECH', nameEn: 'Echo', lines: ['AEL'] });
+    expect(getRegisteredStations(registry).map(station => station.id).sort()).toEqual(['1', '2', '3', '4', '5']);
+  });
+});
+
+describe('station lookups', () => {
+  afterEach(() => setStationRegistry(EMPTY_STATION_DATASET.registry));
+
+  test('find a station by code, case-insensitively', () => {
+    expect(getStationByCode('bra', registry)?.id).toBe('2');
+    expect(getStationByCode('XYZ', registry)).toBeUndefined();
+  });
+
+  test('find a station by its English or Chinese name', () => {
+    expect(getStationByName('CHARLIE', registry)?.id).toBe('3');
+    expect(getStationByName('查理', registry)?.id).toBe('3');
+    expect(getStationByName('Foxtrot', registry)).toBeUndefined();
+  });
+
+  test('find a station by ID, code or name', () => {
+    expect(['2', 'BRA', 'Bravo', '布拉沃'].map(query => findStation(query, registry)?.id)).toEqual(['2', '2', '2', '2']);
+    expect(findStation('nowhere', registry)).toBeUndefined();
+  });
+
+  test('leave unknown IDs unresolved', () => {
+    expect(getStationById('99', registry)).toBeUndefined();
+    expect(resolveStationId('99', registry)).toBe('99');
+  });
+
+  test('read the default registry', () => {
+    expect(getStationById('1')).toBeUndefined();
+    setStationRegistry(registry);
+    expect(getStationById('91')?.code).toBe('ALP');
+  });
+});
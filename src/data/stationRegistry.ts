@@ -0,0 +1,163 @@
+// Unified station registry
+// Joins the fare CSV (station ID, English name) with the lines-and-stations CSV
+// (station code, Chinese name, lines) into one Station record per physical station.
+
+import { FareRecord } from './fareService';
+import { freezeMap } from './freeze';
+
+export interface Station {
+  id: string; // Station ID used by the fare data
+  code: string | null; // Three-letter station code (e.g. "TSW"), null if not in the station CSV
+  nameEn: string;
+  nameZh: string;
+  lines: string[]; // Line codes serving this station (e.g. ["TWL", "TML"])
+}
+
+export interface StationCSVRow {
+  'Line Code': string;
+  'Direction': string;
+  'Station Code': string;
+  'Station ID': string;
+  'Chinese Name': string;
+  'English Name': string;
+  'Sequence': string;
+}
+
+// Stations plus lookups by ID (including alias IDs such as Airport Express platforms),
+// code and lower-cased English and Chinese name
+export interface StationRegistry {
+  readonly stations: readonly Station[];
+  readonly byId: ReadonlyMap<string, Station>;
+  readonly byCode: ReadonlyMap<string, Station>;
+  readonly byName: ReadonlyMap<string, Station>;
+}
+
+// Function to build a registry from both CSVs.
+// Stations sharing a code are one physical station; the Airport Express lists
+// separate IDs for Hong Kong, Kowloon and Tsing Yi, so the ID that has fares wins
+// and the others become aliases.
+export function buildStationRegistry(
+  fareRecords: readonly FareRecord[],
+  stationRows: readonly StationCSVRow[]
+): StationRegistry {
+  const fareStationNames = new Map<string, string>();
+  fareRecords.forEach(record => {
+    fareStationNames.set(String(record.SRC_STATION_ID), record.SRC_STATION_NAME);
+    fareStationNames.set(String(record.DEST_STATION_ID), record.DEST_STATION_NAME);
+  });
+
+  // Group station CSV rows by station code
+  const rowsByCode = new Map<string, StationCSVRow[]>();
+  stationRows.forEach(row => {
+    if (!row['Station Code']) return;
+    if (!rowsByCode.has(row['Station Code'])) {
+      rowsByCode.set(row['Station Code'], []);
+    }
+    rowsByCode.get(row['Station Code'])!.push(row);
+  });
+
+  const stations: Station[] = [];
+  const byId = new Map<string, Station>();
+  const byCode = new Map<string, Station>();
+  const byName = new Map<string, Station>();
+
+  rowsByCode.forEach((rows, code) => {
+    const ids = Array.from(new Set(rows.map(row => String(row['Station ID']))));
+    const id = ids.find(stationId => fareStationNames.has(stationId)) || ids[0];
+
+    const station: Station = Object.freeze({
+      id,
+      code,
+      nameEn: fareStationNames.get(id) || rows[0]['English Name'],
+      nameZh: rows[0]['Chinese Name'],
+      lines: Array.from(new Set(rows.map(row => row['Line Code']))),
+    });
+
+    stations.push(station);
+    ids.forEach(stationId => byId.set(stationId, station));
+  });
+
+  // Stations with fares but no line data (e.g. Racecourse)
+  fareStationNames.forEach((nameEn, id) => {
+    if (byId.has(id)) return;
+    const station: Station = Object.freeze({ id, code: null, nameEn, nameZh: nameEn, lines: [] });
+    stations.push(station);
+    byId.set(id, station);
+  });
+
+  stations.forEach(station => {
+    if (station.code) {
+      byCode.set(station.code, station);
+    }
+    byName.set(station.nameEn.toLowerCase(), station);
+    byName.set(station.nameZh.toLowerCase(), station);
+  });
+
+  return Object.freeze({ stations: Object.freeze(stations), byId: freezeMap(byId), byCode: freezeMap(byCode), byName: freezeMap(byName) });
+}
+
+// Function to add stations from another network (e.g. Light Rail stops) to a registry.
+// Returns a new registry; existing IDs, codes and names keep pointing at their stations.
+export function extendStationRegistry(registry: StationRegistry, extraStations: readonly Station[]): StationRegistry {
+  const stations = [...registry.stations];
+  const byId = new Map(registry.byId);
+  const byCode = new Map(registry.byCode);
+  const byName = new Map(registry.byName);
+
+  extraStations.forEach(extra => {
+    if (byId.has(extra.id)) return;
+    const station: Station = Object.freeze({
+      ...extra,
+      code: extra.code && !byCode.has(extra.code) ? extra.code : null,
+    });
+    stations.push(station);
+    byId.set(station.id, station);
+    if (station.code) {
+      byCode.set(station.code, station);
+    }
+    [station.nameEn, station.nameZh].forEach(name => {
+      if (!byName.has(name.toLowerCase())) {
+        byName.set(name.toLowerCase(), station);
+      }
+    });
+  });
+
+  return Object.freeze({ stations: Object.freeze(stations), byId: freezeMap(byId), byCode: freezeMap(byCode), byName: freezeMap(byName) });
+}
+
+let defaultRegistry: StationRegistry = buildStationRegistry([], []);
+
+// Function to make a registry the default one read by the getters
+export function setStationRegistry(registry: StationRegistry): void {
+  defaultRegistry = registry;
+}
+
+// Get a station by its ID (alias IDs resolve to the shared station)
+export function getStationById(id: string, registry: StationRegistry = defaultRegistry): Station | undefined {
+  return registry.byId.get(String(id));
+}
+
+// Get a station by its code, case-insensitively
+export function getStationByCode(code: string, registry: StationRegistry = defaultRegistry): Station | undefined {
+  return registry.byCode.get(code.toUpperCase());
+}
+
+// Get a station by its English or Chinese name, case-insensitively
+export function getStationByName(name: string, registry: StationRegistry = defaultRegistry): Station | undefined {
+  return registry.byName.get(name.toLowerCase());
+}
+
+// Get a station by ID, code or name in either language
+export function findStation(query: string, registry: StationRegistry = defaultRegistry): Station | undefined {
+  return getStationById(query, registry) || getStationByCode(query, registry) || getStationByName(query, registry);
+}
+
+// Resolve any station ID (including aliases) to its canonical ID
+export function resolveStationId(id: string, registry: StationRegistry = defaultRegistry): string {
+  return getStationById(id, registry)?.id ?? String(id);
+}
+
+// Get all stations in the registry
+export function getRegisteredStations(registry: StationRegistry = defaultRegistry): readonly Station[] {
+  return registry.stations;
+}
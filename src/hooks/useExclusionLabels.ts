@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { getExclusionPresets, RouteExclusions } from '../data/routeExclusions';
+import { getLineById } from '../data/mtrLines';
+import { LIGHT_RAIL_LINE } from '../data/lightRail';
+import { useIsChinese } from './useLanguage';
+import { useStationName } from './useStationName';
+
+// Returns a function that lists active exclusions as localized labels:
+// preset names first, then avoided lines, then excluded stations.
+export function useExclusionLabels(): (exclusions: RouteExclusions) => string[] {
+  const isChinese = useIsChinese();
+  const stationName = useStationName();
+
+  return useCallback((exclusions: RouteExclusions) => {
+    const presetNames = getExclusionPresets()
+      .filter(preset => exclusions.presetIds.includes(preset.id))
+      .map(preset => (isChinese ? preset.name['zh-Hant'] : preset.name.en));
+    const lineNames = exclusions.lineIds.map(lineId => {
+      const line = lineId === LIGHT_RAIL_LINE.id ? LIGHT_RAIL_LINE : getLineById(lineId);
+      if (!line) return lineId;
+      return isChinese ? line.nameZh : line.nameEn;
+    });
+    return [...presetNames, ...lineNames, ...exclusions.stationIds.map(stationName)];
+  }, [isChinese, stationName]);
+}
@@ -0,0 +1,13 @@
+import { useTranslation } from 'react-i18next';
+
+// Returns the active language, e.g. 'en' or 'zh-Hant'.
+// Empty until i18next has picked a language (as in tests, where nothing is detected).
+export function useLanguage(): string {
+  const { i18n } = useTranslation();
+  return i18n.resolvedLanguage ?? i18n.language ?? '';
+}
+
+// Returns whether the interface is shown in Chinese
+export function useIsChinese(): boolean {
+  return useLanguage().startsWith('zh');
+}
@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react';
+import { findNearestStations, NearbyStation } from '../data/nearestStation';
+import { resolveStationId } from '../data/stationRegistry';
+
+// Locations further than this from every station are treated as outside the network
+const MAX_STATION_DISTANCE_METRES = 20000;
+
+export type LocateError = 'unsupported' | 'denied' | 'unavailable' | 'tooFar';
+
+// Finds the station nearest to the device using the browser geolocation API
+export function useNearestStation(): {
+  locate: (onFound: (station: NearbyStation) => void) => void;
+  locating: boolean;
+  error: LocateError | null;
+} {
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<LocateError | null>(null);
+
+  const locate = useCallback((onFound: (station: NearbyStation) => void) => {
+    if (!('geolocation' in navigator)) {
+      setError('unsupported');
+      return;
+    }
+
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLocating(false);
+        const [nearest] = findNearestStations(
+          { lat: position.coords.latitude, lng: position.coords.longitude },
+          1,
+          MAX_STATION_DISTANCE_METRES
+        );
+        if (!nearest) {
+          setError('tooFar');
+          return;
+        }
+        onFound({ ...nearest, stationId: resolveStationId(nearest.stationId) });
+      },
+      positionError => {
+        setLocating(false);
+        setError(positionError.code === positionError.PERMISSION_DENIED ? 'denied' : 'unavailable');
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 }
+    );
+  }, []);
+
+  return { locate, locating, error };
+}
@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getStationById } from '../data/stationRegistry';
+import { useIsChinese } from './useLanguage';
+
+// Returns a function that gives the localized display name for a station ID.
+// The translation files take priority; the registry's official names are the fallback.
+export function useStationName(): (stationId: string) => string {
+  const { t } = useTranslation();
+  const isChinese = useIsChinese();
+
+  return useCallback((stationId: string) => {
+    const station = getStationById(stationId);
+    if (!station) return stationId;
+    return t(`stations.${station.nameEn}`, isChinese ? station.nameZh : station.nameEn);
+  }, [t, isChinese]);
+}
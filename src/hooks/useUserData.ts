@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadUserData, saveUserData, USER_DATA_KEY, UserData } from '../userStorage';
+
+// Saved routes, history and preferences, written back to storage on every change
+// and reloaded when another tab changes them
+export function useUserData(): [UserData, (change: (data: UserData) => UserData) => void] {
+  const [userData, setUserData] = useState<UserData>(() => loadUserData());
+
+  const updateUserData = useCallback((change: (data: UserData) => UserData) => {
+    setUserData(current => {
+      const next = change(current);
+      saveUserData(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === USER_DATA_KEY) {
+        setUserData(loadUserData());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return [userData, updateUserData];
+}
@@ -0,0 +1,33 @@
+import React, { useCallback, useState } from 'react';
+
+// Number of rows rendered above and below the visible window
+const OVERSCAN_ROWS = 8;
+
+export interface VirtualRows {
+  start: number; // Index of the first rendered row
+  end: number; // Index after the last rendered row
+  paddingTop: number; // Height of the rows skipped above, in pixels
+  paddingBottom: number; // Height of the rows skipped below, in pixels
+  onScroll: (event: React.UIEvent<HTMLElement>) => void;
+}
+
+// Windowing for a scrollable list of fixed-height rows: only the rows in view (plus
+// a margin) are rendered, and padding stands in for the rest so the scrollbar is right
+export function useVirtualRows(rowCount: number, rowHeight: number, viewportHeight: number): VirtualRows {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const start = Math.min(rowCount, Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS));
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN_ROWS);
+
+  return {
+    start,
+    end: Math.max(start, end),
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, rowCount - Math.max(start, end)) * rowHeight,
+    onScroll,
+  };
+}
@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import { HelmetProvider } from 'react-helmet-async'; // Import HelmetProvider
 import './index.css';
 import App from './App';
+import UpdatePrompt from './components/UpdatePrompt';
 import reportWebVitals from './reportWebVitals';
 import './i18n'; // Import the i18n configuration
 
@@ -15,6 +16,7 @@ root.render(
       {/* Wrap App in Suspense for loading translations */}
       <Suspense fallback="Loading...">
         <App />
+        <UpdatePrompt />
       </Suspense>
     </HelmetProvider>
   </React.StrictMode>
@@ -0,0 +1,72 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Service worker: precaches the app shell and keeps the fare, station and
+// translation files available offline. Data files are served stale-while-revalidate,
+// and pages are told when a background refresh brought in newer data.
+// Built by CRA through workbox-webpack-plugin's InjectManifest.
+
+import { clientsClaim } from 'workbox-core';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { StaleWhileRevalidate } from 'workbox-strategies';
+import { BroadcastUpdatePlugin } from 'workbox-broadcast-update';
+
+declare const self: ServiceWorkerGlobalScope;
+
+const DATA_CACHE_NAME = 'mtr-data';
+
+// Files under public/ that the app fetches at runtime
+const DATA_URLS = [
+  '/mtr_lines_fares.csv',
+  '/mtr_lines_and_stations.csv',
+  '/mtr_lines_fares.previous.csv',
+  '/light_rail_routes_and_stops.csv',
+  '/light_rail_fares.csv',
+  '/mtr_savings_index.json',
+  '/locales/en/translation.json',
+  '/locales/zh-Hant/translation.json',
+];
+
+clientsClaim();
+
+// Precache all of the assets generated by the build process
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve index.html for navigations so deep links like /savings work offline
+const fileExtensionRegexp = /[^/?]+\.[^/]+$/;
+registerRoute(
+  ({ request, url }: { request: Request; url: URL }) => {
+    if (request.mode !== 'navigate') return false;
+    if (url.pathname.startsWith('/_')) return false;
+    if (url.pathname.match(fileExtensionRegexp)) return false;
+    return true;
+  },
+  createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html')
+);
+
+// Fare, station and translation data: answer from cache, refresh in the background,
+// and broadcast a CACHE_UPDATED message when the refreshed copy differs
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && DATA_URLS.includes(url.pathname),
+  new StaleWhileRevalidate({
+    cacheName: DATA_CACHE_NAME,
+    plugins: [new BroadcastUpdatePlugin()],
+  })
+);
+
+// Warm the data cache on install so the first offline visit already works
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(DATA_CACHE_NAME).then(cache =>
+      Promise.all(DATA_URLS.map(url => cache.add(url).catch(() => undefined)))
+    )
+  );
+});
+
+// Allow the page to activate a waiting service worker from the update prompt
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
@@ -0,0 +1,74 @@
+// Registers the service worker in production builds and reports when a new
+// version of the app, or newer fare data, is ready to be used.
+
+type UpdateCallback = (registration: ServiceWorkerRegistration) => void;
+
+interface Config {
+  onUpdate?: UpdateCallback; // A new app version is installed and waiting
+  onDataUpdate?: (url: string) => void; // A data file was refreshed in the background
+}
+
+export function register(config?: Config) {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  const registerWorker = () => {
+    const swUrl = `${process.env.PUBLIC_URL}/service-worker.js`;
+
+    navigator.serviceWorker
+      .register(swUrl)
+      .then(registration => {
+        // A worker may already be waiting from a previous visit
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          config?.onUpdate?.(registration);
+        }
+
+        registration.onupdatefound = () => {
+          const installingWorker = registration.installing;
+          if (!installingWorker) return;
+          installingWorker.onstatechange = () => {
+            // With an existing controller, "installed" means an update is waiting
+            if (installingWorker.state === 'installed' && navigator.serviceWorker.controller) {
+              config?.onUpdate?.(registration);
+            }
+          };
+        };
+      })
+      .catch(error => {
+        console.error('Error during service worker registration:', error);
+      });
+
+    // Messages from workbox-broadcast-update
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.meta === 'workbox-broadcast-update' && event.data.type === 'CACHE_UPDATED') {
+        config?.onDataUpdate?.(event.data.payload.updatedURL);
+      }
+    });
+  };
+
+  // Wait for the page to load so registration doesn't compete with the first render
+  if (document.readyState === 'complete') {
+    registerWorker();
+  } else {
+    window.addEventListener('load', registerWorker, { once: true });
+  }
+}
+
+// Activate the waiting service worker and reload once it has taken control
+export function applyUpdate(registration: ServiceWorkerRegistration) {
+  if (!registration.waiting) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  registration.waiting.postMessage({ type: 'SKIP_WAITING' });
+}
+
+export function unregister() {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then(registration => registration.unregister())
+      .catch(error => console.error(error.message));
+  }
+}
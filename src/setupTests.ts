@@ -3,3 +3,6 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// Web Workers are bundled through import.meta.url, which Jest cannot parse
+jest.mock('./workers/createSavingsWorker', () => ({ createSavingsWorker: jest.fn() }));
@@ -0,0 +1,63 @@
+import {
+  buildCalculatorUrl,
+  buildPageUrl,
+  buildSavingsUrl,
+  CalculatorQuery,
+  DEFAULT_CALCULATOR_QUERY,
+  DEFAULT_SAVINGS_QUERY,
+  parseLocation,
+  SavingsQuery,
+} from './urlState';
+
+// Split a built URL back into the pathname and search string the app reads
+const parseUrl = (url: string) => {
+  const [pathname, search = ''] = url.split('?');
+  return parseLocation(pathname, search ? `?${search}` : '');
+};
+
+describe('calculator URLs', () => {
+  test('round-trip every field', () => {
+    const query: CalculatorQuery = { from: 'TSW', to: 'CEN', pay: 'OCT_STD_FARE', splits: 2, detour: 1 };
+    const url = buildCalculatorUrl(query);
+
+    expect(url).toBe('/?from=TSW&to=CEN&pay=OCT_STD_FARE&splits=2&detour=1');
+    expect(parseUrl(url)).toMatchObject({ page: 'calculator', calculator: query });
+  });
+
+  test('leave out defaults, but keep "on my way" mode at zero stops', () => {
+    expect(buildCalculatorUrl(DEFAULT_CALCULATOR_QUERY)).toBe('/');
+    expect(parseUrl(buildCalculatorUrl({ ...DEFAULT_CALCULATOR_QUERY, detour: 0 })).calculator.detour).toBe(0);
+  });
+
+  test('fall back to defaults for unknown or out-of-range values', () => {
+    expect(parseLocation('/', '?pay=FREE&splits=9&detour=-1').calculator).toEqual(DEFAULT_CALCULATOR_QUERY);
+    expect(parseLocation('/', '?splits=0&detour=4').calculator).toEqual(DEFAULT_CALCULATOR_QUERY);
+  });
+});
+
+describe('savings URLs', () => {
+  test('round-trip the payment method and sorting', () => {
+    const query: SavingsQuery = { pay: 'SINGLE_ADT_FARE', sort: 'startStationName', order: 'asc' };
+    const url = buildSavingsUrl(query);
+
+    expect(url).toBe('/savings?pay=SINGLE_ADT_FARE&sort=startStationName&order=asc');
+    expect(parseUrl(url)).toMatchObject({ page: 'savings', savings: query });
+    expect(buildSavingsUrl(DEFAULT_SAVINGS_QUERY)).toBe('/savings');
+  });
+
+  test('ignore unknown sort columns and the calculator stations', () => {
+    const location = parseLocation('/savings/', '?sort=appliedRules&from=TSW');
+
+    expect(location.savings).toEqual(DEFAULT_SAVINGS_QUERY);
+    expect(location.calculator.from).toBeNull();
+  });
+});
+
+describe('page URLs', () => {
+  test('map every page to its path and back', () => {
+    (['calculator', 'savings', 'changes', 'planner'] as const).forEach(page => {
+      expect(parseUrl(buildPageUrl(page)).page).toBe(page);
+    });
+    expect(parseLocation('/no-such-page', '').page).toBe('calculator');
+  });
+});
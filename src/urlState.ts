@@ -0,0 +1,119 @@
+// URL state for shareable deep links
+// Calculator: /?from=TSW&to=CEN&pay=OCT_STD_FARE&splits=2&detour=1
+// Savings:    /savings?pay=OCT_STD_FARE&sort=saving&order=desc
+// Other pages have a plain path, e.g. /changes or /planner
+
+import { PAYMENT_METHODS, PaymentMethod } from './data/fareService';
+import { SavingInfo } from './data/savingsCalculator';
+import { MAX_SPLITS_LIMIT } from './data/optimizer';
+import { MAX_CORRIDOR_STOPS } from './data/routeCorridor';
+
+export type Page = 'calculator' | 'savings' | 'changes' | 'planner';
+export type Order = 'asc' | 'desc';
+export type SortableColumn = Exclude<keyof SavingInfo, 'appliedRules'>;
+
+export interface CalculatorQuery {
+  from: string | null; // Station code
+  to: string | null; // Station code
+  pay: PaymentMethod;
+  splits: number;
+  detour: number | null; // "On my way" mode: max stops off the direct path, null for anywhere
+}
+
+export interface SavingsQuery {
+  pay: PaymentMethod;
+  sort: SortableColumn;
+  order: Order;
+}
+
+export interface AppLocation {
+  page: Page;
+  calculator: CalculatorQuery;
+  savings: SavingsQuery;
+}
+
+const SAVINGS_PATH = '/savings';
+
+const PAGE_PATHS: Record<Page, string> = {
+  calculator: '/',
+  savings: SAVINGS_PATH,
+  changes: '/changes',
+  planner: '/planner',
+};
+
+const SORTABLE_COLUMNS: SortableColumn[] = [
+  'startStationName', 'destStationName', 'intermediateStationName',
+  'directFare', 'intermediateFare', 'saving',
+];
+
+export const DEFAULT_CALCULATOR_QUERY: CalculatorQuery = {
+  from: null,
+  to: null,
+  pay: 'OCT_ADT_FARE',
+  splits: 1,
+  detour: null,
+};
+
+export const DEFAULT_SAVINGS_QUERY: SavingsQuery = {
+  pay: 'OCT_ADT_FARE',
+  sort: 'saving',
+  order: 'desc',
+};
+
+function parsePaymentMethod(value: string | null, fallback: PaymentMethod): PaymentMethod {
+  return PAYMENT_METHODS.includes(value as PaymentMethod) ? (value as PaymentMethod) : fallback;
+}
+
+// Function to read the page and queries from a pathname and search string
+export function parseLocation(pathname: string, search: string): AppLocation {
+  const params = new URLSearchParams(search);
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const page = (Object.keys(PAGE_PATHS) as Page[]).find(key => PAGE_PATHS[key] === path) || 'calculator';
+
+  const splits = parseInt(params.get('splits') || '', 10);
+  const detour = parseInt(params.get('detour') || '', 10);
+  const sort = params.get('sort') as SortableColumn;
+
+  return {
+    page,
+    calculator: {
+      from: page === 'calculator' ? params.get('from') : null,
+      to: page === 'calculator' ? params.get('to') : null,
+      pay: parsePaymentMethod(params.get('pay'), DEFAULT_CALCULATOR_QUERY.pay),
+      splits: splits >= 1 && splits <= MAX_SPLITS_LIMIT ? splits : DEFAULT_CALCULATOR_QUERY.splits,
+      detour: detour >= 0 && detour <= MAX_CORRIDOR_STOPS ? detour : DEFAULT_CALCULATOR_QUERY.detour,
+    },
+    savings: {
+      pay: parsePaymentMethod(params.get('pay'), DEFAULT_SAVINGS_QUERY.pay),
+      sort: SORTABLE_COLUMNS.includes(sort) ? sort : DEFAULT_SAVINGS_QUERY.sort,
+      order: params.get('order') === 'asc' ? 'asc' : 'desc',
+    },
+  };
+}
+
+// Function to build the calculator URL, leaving out defaults
+export function buildCalculatorUrl(query: CalculatorQuery): string {
+  const params = new URLSearchParams();
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.pay !== DEFAULT_CALCULATOR_QUERY.pay) params.set('pay', query.pay);
+  if (query.splits !== DEFAULT_CALCULATOR_QUERY.splits) params.set('splits', String(query.splits));
+  if (query.detour !== null) params.set('detour', String(query.detour));
+  const search = params.toString();
+  return search ? `/?${search}` : '/';
+}
+
+// Function to build the savings page URL, leaving out defaults
+export function buildSavingsUrl(query: SavingsQuery): string {
+  const params = new URLSearchParams();
+  if (query.pay !== DEFAULT_SAVINGS_QUERY.pay) params.set('pay', query.pay);
+  if (query.sort !== DEFAULT_SAVINGS_QUERY.sort) params.set('sort', query.sort);
+  if (query.order !== DEFAULT_SAVINGS_QUERY.order) params.set('order', query.order);
+  const search = params.toString();
+  return search ? `${SAVINGS_PATH}?${search}` : SAVINGS_PATH;
+}
+
+// Function to build the URL of a page without query parameters
+export function buildPageUrl(page: Page): string {
+  return PAGE_PATHS[page];
+}
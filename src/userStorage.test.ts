@@ -0,0 +1,141 @@
+import { NO_EXCLUSIONS } from './data/routeExclusions';
+import {
+  EMPTY_USER_DATA,
+  FavouriteRoute,
+  HistoryEntry,
+  loadUserData,
+  MAX_HISTORY_ENTRIES,
+  migrateUserData,
+  saveUserData,
+  USER_DATA_KEY,
+  USER_DATA_VERSION,
+} from './userStorage';
+
+// In-memory Storage, so each test starts from its own stored document
+function memoryStorage(initial: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(initial));
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => Array.from(items.keys())[index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+const favourite: FavouriteRoute = {
+  id: 'fav-1',
+  nickname: 'Work',
+  startStationId: '1',
+  destStationId: '2',
+  paymentMethod: 'OCT_ADT_FARE',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const historyEntry: HistoryEntry = {
+  startStationId: '1',
+  destStationId: '2',
+  paymentMethod: 'OCT_ADT_FARE',
+  maxSplits: 2,
+  bestFare: 9.5,
+  bestStationIds: ['3'],
+  directFare: 12,
+  calculatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('migrateUserData', () => {
+  test('upgrades version 1 data, keeping its records and adding empty exclusions', () => {
+    const data = migrateUserData({
+      version: 1,
+      favourites: [favourite],
+      history: [historyEntry],
+      preferences: { defaultPaymentMethod: 'OCT_STD_FARE' },
+    });
+
+    expect(data).toEqual({
+      version: USER_DATA_VERSION,
+      favourites: [favourite],
+      history: [historyEntry],
+      preferences: { defaultPaymentMethod: 'OCT_STD_FARE', exclusions: NO_EXCLUSIONS },
+    });
+  });
+
+  test('returns null for data from a newer version', () => {
+    expect(migrateUserData({ version: USER_DATA_VERSION + 1, favourites: [favourite] })).toBeNull();
+  });
+
+  test('starts again for versions it has no migration path from', () => {
+    expect(migrateUserData({ favourites: [favourite] })).toEqual(EMPTY_USER_DATA);
+    expect(migrateUserData('not an object')).toEqual(EMPTY_USER_DATA);
+  });
+
+  test('drops malformed records and keeps the rest', () => {
+    const data = migrateUserData({
+      version: USER_DATA_VERSION,
+      favourites: [favourite, { ...favourite, id: 7 }, null, { ...favourite, id: 'fav-2', paymentMethod: 'BITCOIN' }],
+      history: [historyEntry, { ...historyEntry, bestFare: 'cheap' }, { ...historyEntry, bestStationIds: ['4', 5], directFare: null }],
+      preferences: { defaultPaymentMethod: 'BITCOIN', exclusions: { presetIds: ['no-racecourse'], stationIds: [1], lineIds: [] } },
+    });
+
+    expect(data?.favourites).toEqual([favourite, { ...favourite, id: 'fav-2', paymentMethod: null }]);
+    expect(data?.history).toEqual([historyEntry, { ...historyEntry, bestStationIds: ['4'], directFare: null }]);
+    expect(data?.preferences).toEqual({
+      defaultPaymentMethod: null,
+      exclusions: { presetIds: ['no-racecourse'], stationIds: [], lineIds: [] },
+    });
+  });
+
+  test('keeps at most the latest history entries', () => {
+    const history = Array.from({ length: MAX_HISTORY_ENTRIES + 5 }, (_, index) => ({ ...historyEntry, bestFare: index }));
+    const data = migrateUserData({ version: USER_DATA_VERSION, history });
+
+    expect(data?.history.map(entry => entry.bestFare)).toEqual(history.slice(0, MAX_HISTORY_ENTRIES).map(entry => entry.bestFare));
+  });
+});
+
+describe('loadUserData', () => {
+  test('reads and migrates the stored document', () => {
+    const storage = memoryStorage({ [USER_DATA_KEY]: JSON.stringify({ version: 1, favourites: [favourite] }) });
+
+    expect(loadUserData(storage).favourites).toEqual([favourite]);
+  });
+
+  test('falls back to empty data for unreadable JSON or missing storage', () => {
+    expect(loadUserData(memoryStorage({ [USER_DATA_KEY]: '{not json' }))).toEqual(EMPTY_USER_DATA);
+    expect(loadUserData(null)).toEqual(EMPTY_USER_DATA);
+  });
+
+  test('does not overwrite data written by a newer version', () => {
+    const newer = JSON.stringify({ version: USER_DATA_VERSION + 1, favourites: [favourite] });
+    const storage = memoryStorage({ [USER_DATA_KEY]: newer });
+
+    expect(loadUserData(storage)).toEqual(EMPTY_USER_DATA);
+    saveUserData(EMPTY_USER_DATA, storage);
+    expect(storage.getItem(USER_DATA_KEY)).toBe(newer);
+  });
+
+  test('saves again once current data is loaded', () => {
+    const storage = memoryStorage({ [USER_DATA_KEY]: JSON.stringify({ version: USER_DATA_VERSION + 1 }) });
+    loadUserData(storage);
+
+    const current = memoryStorage();
+    loadUserData(current);
+    saveUserData({ ...EMPTY_USER_DATA, favourites: [favourite] }, current);
+    expect(loadUserData(current).favourites).toEqual([favourite]);
+  });
+});
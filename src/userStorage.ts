@@ -0,0 +1,240 @@
+// Saved routes, query history and preferences, kept in localStorage
+// Everything lives under one key as a versioned document. Older versions are
+// migrated step by step on load; anything unreadable falls back to empty data,
+// and data written by a newer version of the app is left untouched.
+
+import { PAYMENT_METHODS, PaymentMethod } from './data/fareService';
+import { NO_EXCLUSIONS, RouteExclusions, sanitizeExclusions } from './data/routeExclusions';
+
+export const USER_DATA_KEY = 'mtr-fare-optimizer';
+export const USER_DATA_VERSION = 2;
+export const MAX_HISTORY_ENTRIES = 20;
+
+// A starred origin/destination pair
+export interface FavouriteRoute {
+  id: string;
+  nickname: string;
+  startStationId: string;
+  destStationId: string;
+  paymentMethod: PaymentMethod | null; // Null to use whatever method is selected
+  createdAt: string; // ISO 8601
+}
+
+// A calculated query and its cheapest result
+export interface HistoryEntry {
+  startStationId: string;
+  destStationId: string;
+  paymentMethod: PaymentMethod;
+  maxSplits: number;
+  bestFare: number;
+  bestStationIds: string[]; // Exit stations of the cheapest option, empty if direct
+  directFare: number | null;
+  calculatedAt: string; // ISO 8601
+}
+
+export interface UserPreferences {
+  defaultPaymentMethod: PaymentMethod | null;
+  exclusions: RouteExclusions; // Stations and lines the optimizer must not use as exits
+}
+
+export interface UserData {
+  version: number;
+  favourites: FavouriteRoute[];
+  history: HistoryEntry[]; // Most recent first
+  preferences: UserPreferences;
+}
+
+export const EMPTY_USER_DATA: UserData = {
+  version: USER_DATA_VERSION,
+  favourites: [],
+  history: [],
+  preferences: { defaultPaymentMethod: null, exclusions: NO_EXCLUSIONS },
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null;
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPaymentMethod = (value: unknown): value is PaymentMethod =>
+  PAYMENT_METHODS.includes(value as PaymentMethod);
+
+// The objects in a stored list, skipping anything else
+const records = (value: unknown): UnknownRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+// Migrations keyed by the version they upgrade from; each returns the next version's shape.
+// Add an entry here (and bump USER_DATA_VERSION) whenever the stored shape changes.
+const MIGRATIONS: Record<number, (data: UnknownRecord) => UnknownRecord> = {
+  // Version 2 added route exclusions, starting with none
+  1: data => ({
+    ...data,
+    version: 2,
+    preferences: { ...(isRecord(data.preferences) ? data.preferences : {}), exclusions: NO_EXCLUSIONS },
+  }),
+};
+
+// A stored favourite, or null if a required field is missing
+function sanitizeFavourite(favourite: UnknownRecord): FavouriteRoute | null {
+  const { id, nickname, startStationId, destStationId, paymentMethod, createdAt } = favourite;
+  if (!isString(id) || !isString(nickname) || !isString(startStationId) || !isString(destStationId)) {
+    return null;
+  }
+  return {
+    id,
+    nickname,
+    startStationId,
+    destStationId,
+    paymentMethod: isPaymentMethod(paymentMethod) ? paymentMethod : null,
+    createdAt: isString(createdAt) ? createdAt : new Date(0).toISOString(),
+  };
+}
+
+// A stored history entry, or null if a required field is missing
+function sanitizeHistoryEntry(entry: UnknownRecord): HistoryEntry | null {
+  const { startStationId, destStationId, paymentMethod, maxSplits, bestFare, bestStationIds, directFare, calculatedAt } = entry;
+  if (
+    !isString(startStationId) || !isString(destStationId) ||
+    !isPaymentMethod(paymentMethod) || !isNumber(maxSplits) || !isNumber(bestFare)
+  ) {
+    return null;
+  }
+  return {
+    startStationId,
+    destStationId,
+    paymentMethod,
+    maxSplits,
+    bestFare,
+    bestStationIds: Array.isArray(bestStationIds) ? bestStationIds.filter(isString) : [],
+    directFare: isNumber(directFare) ? directFare : null,
+    calculatedAt: isString(calculatedAt) ? calculatedAt : new Date(0).toISOString(),
+  };
+}
+
+const isPresent = <T>(value: T | null): value is T => value !== null;
+
+// Keep only well-formed records, so one bad entry doesn't throw away the rest
+function sanitizeUserData(data: UnknownRecord): UserData {
+  const preferences: UnknownRecord = isRecord(data.preferences) ? data.preferences : {};
+  const { defaultPaymentMethod } = preferences;
+  return {
+    version: USER_DATA_VERSION,
+    favourites: records(data.favourites).map(sanitizeFavourite).filter(isPresent),
+    history: records(data.history).map(sanitizeHistoryEntry).filter(isPresent).slice(0, MAX_HISTORY_ENTRIES),
+    preferences: {
+      defaultPaymentMethod: isPaymentMethod(defaultPaymentMethod) ? defaultPaymentMethod : null,
+      exclusions: sanitizeExclusions(preferences.exclusions),
+    },
+  };
+}
+
+// Function to turn a stored document of any known version into current user data.
+// Returns null for data from a newer version, which this version can't interpret.
+export function migrateUserData(stored: unknown): UserData | null {
+  if (!isRecord(stored)) {
+    return EMPTY_USER_DATA;
+  }
+  let data = stored;
+  let version = isNumber(data.version) ? data.version : 0;
+  if (version > USER_DATA_VERSION) {
+    return null;
+  }
+  while (version < USER_DATA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      // No path forward from this version: start again rather than guess
+      return EMPTY_USER_DATA;
+    }
+    data = migrate(data);
+    version += 1;
+  }
+  return sanitizeUserData(data);
+}
+
+// Whether saving is safe: false after loading data from a newer app version
+let writable = true;
+
+// Function to read user data from storage
+export function loadUserData(storage: Storage | null = getStorage()): UserData {
+  writable = true;
+  if (!storage) return EMPTY_USER_DATA;
+
+  try {
+    const text = storage.getItem(USER_DATA_KEY);
+    if (!text) return EMPTY_USER_DATA;
+    const data = migrateUserData(JSON.parse(text));
+    if (data === null) {
+      console.warn('Saved routes were written by a newer version of the app; changes will not be saved.');
+      writable = false;
+      return EMPTY_USER_DATA;
+    }
+    return data;
+  } catch (error) {
+    console.warn('Could not read saved routes:', error);
+    return EMPTY_USER_DATA;
+  }
+}
+
+// Function to write user data to storage; failures (private mode, quota) are logged and ignored
+export function saveUserData(data: UserData, storage: Storage | null = getStorage()): void {
+  if (!storage || !writable) return;
+  try {
+    storage.setItem(USER_DATA_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.warn('Could not save routes:', error);
+  }
+}
+
+// localStorage, or null where it is unavailable (e.g. blocked by privacy settings)
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+// Function to add a favourite, replacing any existing one for the same stations
+export function addFavourite(
+  data: UserData,
+  favourite: Omit<FavouriteRoute, 'id' | 'createdAt'>
+): UserData {
+  const createdAt = new Date().toISOString();
+  const others = data.favourites.filter(existing =>
+    existing.startStationId !== favourite.startStationId || existing.destStationId !== favourite.destStationId
+  );
+  return {
+    ...data,
+    favourites: [...others, { ...favourite, id: `${Date.now().toString(36)}-${others.length}`, createdAt }],
+  };
+}
+
+// Function to remove a favourite by ID
+export function removeFavourite(data: UserData, id: string): UserData {
+  return { ...data, favourites: data.favourites.filter(favourite => favourite.id !== id) };
+}
+
+// Function to put a query at the top of the history, dropping an older copy and the oldest entries
+export function recordHistory(data: UserData, entry: HistoryEntry): UserData {
+  const others = data.history.filter(existing =>
+    existing.startStationId !== entry.startStationId ||
+    existing.destStationId !== entry.destStationId ||
+    existing.paymentMethod !== entry.paymentMethod ||
+    existing.maxSplits !== entry.maxSplits
+  );
+  return { ...data, history: [entry, ...others].slice(0, MAX_HISTORY_ENTRIES) };
+}
+
+// Function to remove a history entry by position
+export function removeHistoryEntry(data: UserData, index: number): UserData {
+  return { ...data, history: data.history.filter((_, entryIndex) => entryIndex !== index) };
+}
+
+// Function to set or clear the default payment method
+export function setDefaultPaymentMethod(data: UserData, paymentMethod: PaymentMethod | null): UserData {
+  return { ...data, preferences: { ...data.preferences, defaultPaymentMethod: paymentMethod } };
+}
+
+// Function to replace the route exclusions
+export function setExclusions(data: UserData, exclusions: RouteExclusions): UserData {
+  return { ...data, preferences: { ...data.preferences, exclusions } };
+}
@@ -0,0 +1,4 @@
+// Kept in its own module so tests can replace it: Jest cannot parse import.meta
+export function createSavingsWorker(): Worker {
+  return new Worker(new URL('./savings.worker.ts', import.meta.url));
+}
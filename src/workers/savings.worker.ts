@@ -0,0 +1,71 @@
+/* eslint-disable no-restricted-globals */
+// Web Worker that runs the all-pairs savings calculation off the main thread
+
+import { loadFareData, getStationIdList } from '../data/fareService';
+import { loadStationData } from '../data/mtrLines';
+import { allowedLegs } from '../data/routeExclusions';
+import { calculateSavingsFromStation, SavingInfo } from '../data/savingsCalculator';
+import { SavingsWorkerRequest, SavingsWorkerResponse } from './savingsProtocol';
+
+const ctx = self as unknown as {
+  postMessage: (message: SavingsWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<SavingsWorkerRequest>) => void) | null;
+};
+
+// The only run allowed to keep going; anything else has been cancelled or superseded
+let activeRunId: number | null = null;
+
+async function runCalculation(runId: number, request: Extract<SavingsWorkerRequest, { type: 'start' }>) {
+  try {
+    await loadFareData();
+    const stationIdList = getStationIdList();
+    if (stationIdList.length === 0) {
+      throw new Error('No fare records available after loading.');
+    }
+
+    const exitStationIds = request.exitStationIds ? new Set(request.exitStationIds) : undefined;
+    const isLegAllowed = allowedLegs(request.exclusions);
+    if (isLegAllowed) {
+      // Leg paths follow the lines
+      await loadStationData();
+    }
+    const calculatedSavings: SavingInfo[] = [];
+
+    for (let i = 0; i < stationIdList.length; i++) {
+      if (activeRunId !== runId) {
+        ctx.postMessage({ type: 'cancelled', runId });
+        return;
+      }
+
+      calculatedSavings.push(
+        ...calculateSavingsFromStation(stationIdList[i], stationIdList, request.paymentMethod, undefined, exitStationIds, isLegAllowed)
+      );
+      ctx.postMessage({ type: 'progress', runId, completed: i + 1, total: stationIdList.length });
+
+      // Yield so that cancel or restart messages can be received between rows
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    if (activeRunId === runId) {
+      ctx.postMessage({ type: 'result', runId, savings: calculatedSavings });
+      activeRunId = null;
+    }
+  } catch (err) {
+    ctx.postMessage({ type: 'error', runId, message: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<SavingsWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start':
+      activeRunId = request.runId;
+      runCalculation(request.runId, request);
+      break;
+    case 'cancel':
+      if (activeRunId === request.runId) {
+        activeRunId = null;
+      }
+      break;
+  }
+};
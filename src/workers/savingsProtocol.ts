@@ -0,0 +1,25 @@
+// Message protocol between SavingsPage and the savings worker
+// Every message carries the runId of the calculation it belongs to, so stale
+// progress or results from a cancelled run can be ignored.
+
+import { PaymentMethod } from '../data/fareService';
+import { RouteExclusions } from '../data/routeExclusions';
+import { SavingInfo } from '../data/savingsCalculator';
+
+// Messages sent from the page to the worker
+export type SavingsWorkerRequest =
+  | {
+    type: 'start';
+    runId: number;
+    paymentMethod: PaymentMethod;
+    exitStationIds?: string[]; // Allowed splits, every station when omitted
+    exclusions: RouteExclusions; // For the avoided lines, which the worker checks leg by leg
+  }
+  | { type: 'cancel'; runId: number };
+
+// Messages sent from the worker back to the page
+export type SavingsWorkerResponse =
+  | { type: 'progress'; runId: number; completed: number; total: number }
+  | { type: 'result'; runId: number; savings: SavingInfo[] }
+  | { type: 'cancelled'; runId: number }
+  | { type: 'error'; runId: number; message: string };